@@ -0,0 +1,567 @@
+import { describe, expect, test } from "bun:test";
+import { chmod, mkdir, mkdtemp, readFile, rm, symlink, writeFile } from "fs/promises";
+import { homedir, tmpdir } from "os";
+import { basename, join } from "path";
+import {
+  AppIndex, DockerProvider, ExclusionRules, TaskProvider, executePlan, expandBraces, expandGlobPattern, globToRegExp, mergeConfig,
+  parsePlist, planDeletion, pruneHistory, readAppBundle, summarizeHistory, validateUserConfig,
+} from "./main";
+
+const APPS = join(import.meta.dir, "fixtures", "apps");
+
+// ============================================================================
+// Property List 解析
+// ============================================================================
+
+describe("parsePlist", () => {
+  test("XML 格式", async () => {
+    const plist = parsePlist(await readFile(join(APPS, "Foo.app", "Contents", "Info.plist")));
+    expect(plist).toEqual({
+      Arr: [1, 2.5, true, "é"],
+      CFBundleExecutable: "foo",
+      CFBundleIdentifier: "com.x.foo",
+      CFBundleName: "Foo & Co",
+      D: new Date("2020-01-01T00:00:00Z"),
+      Data: new Uint8Array([0, 1]),
+      Num: 12,
+    });
+  });
+
+  test("二進位格式", async () => {
+    const plist = parsePlist(await readFile(join(APPS, "Bar.app", "Contents", "Info.plist"))) as Record<string, unknown>;
+    expect(plist.CFBundleIdentifier).toBe("com.x.y");
+    expect(plist.CFBundleName).toBe("Bär 日本");
+    expect(plist.Big).toBe(2 ** 40);
+    expect(plist.Neg).toBe(-5);
+    expect(plist.D).toEqual(new Date("2020-01-01T00:00:00Z"));
+    expect(plist.Arr).toEqual(Array(20).fill("x".repeat(20)));
+  });
+
+  test("格式錯誤時丟出錯誤", () => {
+    expect(() => parsePlist(Buffer.from("<plist><dict><key>a</key></plist>"))).toThrow();
+    expect(() => parsePlist(Buffer.from("not a plist"))).toThrow();
+  });
+});
+
+// ============================================================================
+// 已安裝應用程式索引
+// ============================================================================
+
+describe("readAppBundle", () => {
+  test("讀取 Info.plist 的識別資訊", async () => {
+    const app = await readAppBundle(join(APPS, "Foo.app"));
+    expect(app).toMatchObject({ bundleId: "com.x.foo", name: "Foo & Co", executable: "foo", teamIds: [], groupIds: [] });
+  });
+
+  test("讀取 embedded.provisionprofile 的 Team ID 與 App Group", async () => {
+    const app = await readAppBundle(join(APPS, "Bar.app"));
+    expect(app).toMatchObject({ bundleId: "com.x.y", name: "Bär 日本", teamIds: ["TEAM123"], groupIds: ["group.com.z.shared"] });
+  });
+});
+
+// 只用 fixture 建立索引，不受執行環境中已安裝的應用程式影響
+async function fixtureIndex(): Promise<AppIndex> {
+  const index = new AppIndex();
+  for (const name of ["Foo.app", "Bar.app"]) index.add((await readAppBundle(join(APPS, name)))!);
+  return index;
+}
+
+describe("AppIndex", () => {
+  test("在根目錄下找到 .app", async () => {
+    const index = await AppIndex.build([APPS]);
+    expect(index.apps.map(a => a.bundleId)).toEqual(expect.arrayContaining(["com.x.foo", "com.x.y"]));
+  });
+
+  test("依 bundle ID、App Group、Team ID 與名稱比對", async () => {
+    const index = await fixtureIndex();
+    expect(index.match("com.x.foo.plist")).toMatchObject({ via: "bundleId" });
+    expect(index.match("com.x.foo.helper")).toMatchObject({ via: "bundlePrefix" });
+    expect(index.match("group.com.z.shared")).toMatchObject({ via: "group" });
+    expect(index.match("TEAM123.shared")).toMatchObject({ via: "team" });
+    expect(index.match("com.x.other")).toMatchObject({ via: "vendor" });
+    expect(index.match("foo")).toMatchObject({ via: "name" });
+    expect(index.match("com.gone.app")).toBeNull();
+  });
+
+  test("安裝紀錄只以名稱列入", async () => {
+    const index = await fixtureIndex();
+    index.addName("slack");
+    index.addName("foo");
+    expect(index.size).toBe(3);
+    expect(index.match("Slack")).toMatchObject({ via: "name", app: { name: "slack", path: "" } });
+  });
+
+  test("安裝檔須與應用程式名稱完全相同", async () => {
+    const index = await fixtureIndex();
+    expect(index.matchInstaller("Foo-1.2.3-arm64.dmg")?.bundleId).toBe("com.x.foo");
+    expect(index.matchInstaller("Foobar-2.0.dmg")).toBeNull();
+  });
+
+  test("安裝檔本身或個人資料夾中的 .app 不算已安裝", async () => {
+    const index = new AppIndex();
+    index.add((await readAppBundle(join(APPS, "Foo.app")))!);
+    expect(index.matchInstaller(join(APPS, "Foo.app"))).toBeNull();
+    expect(index.matchInstaller("/Users/me/Downloads/Foo-1.2.dmg", [APPS])).toBeNull();
+    expect(index.matchInstaller("/Users/me/Downloads/Foo-1.2.dmg")?.bundleId).toBe("com.x.foo");
+  });
+});
+
+// ============================================================================
+// Docker 資源
+// ============================================================================
+
+// 以假的 docker 指令回傳固定的輸出，記錄收到的參數
+const DOCKER_STUB = `#!/bin/sh
+echo "$@" >> "$(dirname "$0")/calls.log"
+case "$1 $2" in
+  "system df") cat <<'JSON'
+{"Images":[
+  {"ID":"sha256:aaaaaaaaaaaa1111","Repository":"node","Tag":"20","Containers":"0","UniqueSize":"1.5GB"},
+  {"ID":"sha256:aaaaaaaaaaaa1111","Repository":"node","Tag":"lts","Containers":"0","UniqueSize":"1.5GB"},
+  {"ID":"sha256:bbbbbbbbbbbb2222","Repository":"<none>","Tag":"<none>","Containers":"0","UniqueSize":"300MB"},
+  {"ID":"sha256:cccccccccccc3333","Repository":"redis","Tag":"7","Containers":"1","UniqueSize":"100MB"}],
+ "Containers":[
+  {"ID":"dddddddddddd4444","Names":"old","Image":"node:20","State":"exited","Size":"12kB (virtual 1.5GB)"},
+  {"ID":"eeeeeeeeeeee5555","Names":"db","Image":"redis:7","State":"running","Size":"1MB"}],
+ "Volumes":[
+  {"Name":"orphan-vol","Links":"0","Size":"2GiB"},
+  {"Name":"db-data","Links":"1","Size":"5GB"}]}
+JSON
+  ;;
+  "image ls") echo '{"ID":"bbbbbbbbbbbb"}' ;;
+  "builder du") printf 'ID  RECLAIMABLE  SIZE\nReclaimable:\t800MB\nTotal:\t1GB\n' ;;
+esac
+`;
+
+describe("DockerProvider", () => {
+  const task = { name: "Docker", description: "Docker", paths: [], enabled: true, provider: "docker" as const };
+
+  async function withStubDocker<T>(run: (dir: string) => Promise<T>): Promise<T> {
+    const dir = await mkdtemp(join(tmpdir(), "mac-clean-docker-"));
+    const path = process.env.PATH;
+    try {
+      await writeFile(join(dir, "docker"), DOCKER_STUB);
+      await chmod(join(dir, "docker"), 0o755);
+      process.env.PATH = `${dir}:${path}`;
+      return await run(dir);
+    } finally {
+      process.env.PATH = path;
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  function context(warnings: string[] = []) {
+    return { exclusions: new ExclusionRules([]), options: {}, exclude() {}, warn: (m: string) => warnings.push(m), report: (key: string) => warnings.push(key) };
+  }
+
+  test("列出未使用的映像檔、停止的容器、未掛載的 volume 與建置快取", async () => {
+    await withStubDocker(async () => {
+      const warnings: string[] = [];
+      const provider = new DockerProvider(task);
+      const targets = await provider.discover(context(warnings));
+      const summary = targets.map(x => [x.data?.kind, x.size, provider.describe(x)]);
+      expect(warnings).toEqual([]);
+      expect(summary).toEqual([
+        ["unused-volume", 2 * 1024 ** 3, "docker volume rm orphan-vol"],
+        ["unused-image", 1.5e9, "docker image rm node:20 node:lts"],
+        ["build-cache", 800e6, "docker builder prune --all -f"],
+        ["dangling-image", 300e6, "docker image rm bbbbbbbbbbbb"],
+        ["stopped-container", 12e3, "docker container rm dddddddddddd"],
+      ]);
+    });
+  });
+
+  test("以參數陣列執行移除指令", async () => {
+    await withStubDocker(async dir => {
+      const provider = new DockerProvider(task);
+      const targets = await provider.discover(context());
+      const image = targets.find(x => x.data?.kind === "unused-image")!;
+      expect(image.data?.args).toEqual(["image", "rm", "node:20", "node:lts"]);
+      await provider.clean(image);
+      const calls = await readFile(join(dir, "calls.log"), "utf-8");
+      expect(calls).toContain("image rm node:20 node:lts\n");
+    });
+  });
+
+  test("沒有安裝 docker 時不回報警告", async () => {
+    const path = process.env.PATH;
+    process.env.PATH = "/nonexistent";
+    try {
+      const warnings: string[] = [];
+      expect(await new DockerProvider(task).discover(context(warnings))).toEqual([]);
+      expect(warnings).toEqual([]);
+    } finally {
+      process.env.PATH = path;
+    }
+  });
+
+  test("隔離區與垃圾桶模式下不執行 docker 指令", async () => {
+    await withStubDocker(async dir => {
+      const provider = new DockerProvider(task);
+      const [target] = await provider.discover(context());
+      const item = { name: target.name, path: "", size: target.size ?? 0, target: { provider, target } };
+      expect(planDeletion(item, false, "delete").skippedKey).toBeUndefined();
+      for (const removal of ["quarantine", "trash"] as const) {
+        const plan = planDeletion(item, false, removal);
+        expect(plan).toMatchObject({ branch: "provider", skippedKey: "delete.irreversible" });
+        expect(await executePlan(plan)).toMatchObject({ status: "skipped", freed: 0, errorKey: "delete.irreversible" });
+      }
+      const calls = await readFile(join(dir, "calls.log"), "utf-8");
+      expect(calls).not.toContain(" rm ");
+    });
+  });
+});
+
+// ============================================================================
+// 執行紀錄與統計
+// ============================================================================
+
+describe("summarizeHistory", () => {
+  const now = Date.parse("2026-01-31T00:00:00Z");
+  const at = (day: number) => new Date(Date.parse("2026-01-01T00:00:00Z") + day * 86400e3).toISOString();
+  const scan = (day: number, tasks: Record<string, number>) => ({ type: "cacheScan" as const, at: at(day), tasks });
+  const orphans = (day: number, paths: string[]) => ({
+    type: "orphanScan" as const, at: at(day), counts: { high: paths.length, medium: 0, low: 0 }, totalSize: paths.length, orphans: paths.map(path => ({ path, size: 1 })),
+  });
+  const cleanup = (day: number, removal: "delete" | "trash", items: [string, string, number][]) => ({
+    type: "cleanup" as const, at: at(day), removal, freed: items.reduce((s, [, , freed]) => s + freed, 0), failed: 0,
+    items: items.map(([name, path, freed]) => ({ name, path, kind: "path" as const, freed })),
+  });
+
+  test("成長為期間內第一次與最後一次掃描的差", () => {
+    const records = [
+      scan(10, { npm: 500 }),
+      scan(25, { npm: 100, yarn: 50 }),
+      scan(27, { npm: 400, yarn: 60 }),
+      scan(28, { npm: 150, yarn: 40 }),
+      scan(29, { npm: 300, yarn: 40 }),
+    ];
+    const stats = summarizeHistory(records, 7 * 86400e3, now);
+    expect(stats.scans).toBe(5);
+    expect(stats.growth).toEqual([{ task: "npm", growth: 200, initial: 100, current: 300, since: at(25) }]);
+  });
+
+  test("只有永久刪除計入釋放空間", () => {
+    const records = [
+      cleanup(1, "delete", [["npm", "/a", 100], ["Slack", "/b", 300]]),
+      cleanup(2, "trash", [["npm", "/c", 50]]),
+      cleanup(3, "delete", [["npm", "/d", 250]]),
+      // 新的紀錄把移動的大小記在 moved，舊的紀錄記在 freed
+      { ...cleanup(4, "trash", [["npm", "/e", 0]]), moved: 70 },
+    ];
+    const stats = summarizeHistory(records, 7 * 86400e3, now);
+    expect(stats).toMatchObject({ cleanups: 4, reclaimed: 650, moved: 120, first: at(1), last: at(4) });
+    expect(stats.reclaimedBy).toEqual([{ name: "npm", freed: 350 }, { name: "Slack", freed: 300 }]);
+  });
+
+  test("刪除後又在掃描中出現的殘留檔案", () => {
+    const records = [
+      orphans(1, ["/x", "/y"]),
+      cleanup(2, "delete", [["X", "/x", 1], ["Y", "/y", 1]]),
+      orphans(3, ["/x"]),
+      orphans(4, ["/x"]),
+      cleanup(5, "delete", [["X", "/x", 1]]),
+      orphans(6, ["/x"]),
+      // 移至垃圾桶後還原的項目再次出現
+      cleanup(7, "trash", [["Z", "/z", 1]]),
+      orphans(8, ["/z"]),
+    ];
+    const stats = summarizeHistory(records, 7 * 86400e3, now);
+    expect(stats.recurring).toEqual([{ path: "/x", returns: 2, size: 1, lastSeen: at(6) }]);
+    expect(stats.lastOrphanScan).toEqual({ at: at(8), counts: { high: 1, medium: 0, low: 0 }, totalSize: 1 });
+  });
+});
+
+describe("pruneHistory", () => {
+  const now = Date.parse("2026-07-01T00:00:00Z");
+  const daysAgo = (n: number) => new Date(now - n * 86400e3).toISOString();
+  const orphans = (n: number) => ({ type: "orphanScan" as const, at: daysAgo(n), counts: { high: 1, medium: 0, low: 0 }, totalSize: 1, orphans: [{ path: "/x", size: 1 }] });
+
+  test("捨棄超過保留天數的紀錄，沒有超出上限時原樣保留", () => {
+    const records = [{ type: "cacheScan" as const, at: daysAgo(200), tasks: {} }, orphans(10)];
+    const kept = pruneHistory(records, now);
+    expect(kept).toHaveLength(1);
+    expect(kept[0]).toBe(records[1]);
+  });
+
+  test("只有最近幾次殘留檔案掃描保留路徑清單", () => {
+    const records = Array.from({ length: 25 }, (_, i) => orphans(25 - i));
+    const kept = pruneHistory(records, now);
+    expect(kept).toHaveLength(25);
+    expect(kept.filter(r => r.type === "orphanScan" && r.orphans.length > 0)).toHaveLength(20);
+    expect(kept[0]).toMatchObject({ orphans: [], totalSize: 1 });
+    expect(kept[24]).toBe(records[24]);
+  });
+});
+
+// ============================================================================
+// 排除規則
+// ============================================================================
+
+describe("ExclusionRules", () => {
+  async function withTree(files: string[], fn: (dir: string) => void | Promise<void>) {
+    const dir = await mkdtemp(join(tmpdir(), "mac-clean-ex-"));
+    try {
+      for (const f of files) {
+        await mkdir(join(dir, f, ".."), { recursive: true });
+        await writeFile(join(dir, f), "");
+      }
+      await fn(dir);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  test("glob 規則保護符合的路徑與其底下的項目", async () => {
+    await withTree(["Caches/com.mycorp.app/data", "Caches/com.other/data"], dir => {
+      const rules = new ExclusionRules([{ glob: `${dir}/Caches/com.mycorp.*` }]);
+      expect(rules.match(`${dir}/Caches/com.mycorp.app`)).toBe(`glob:${dir}/Caches/com.mycorp.*`);
+      expect(rules.match(`${dir}/Caches/com.mycorp.app/data`)).not.toBeNull();
+      expect(rules.match(`${dir}/Caches/com.other`)).toBeNull();
+    });
+  });
+
+  test("上層資料夾只有底下確實有符合的路徑時才受保護", async () => {
+    await withTree(["Caches/com.spotify.client/data", "Caches/tool/x/models/m.bin", "Caches/tool/y/other"], dir => {
+      const rules = new ExclusionRules([{ glob: `${dir}/Caches/**/models` }]);
+      expect(rules.match(`${dir}/Caches`)).not.toBeNull();
+      expect(rules.match(`${dir}/Caches/tool`)).not.toBeNull();
+      expect(rules.match(`${dir}/Caches/tool/x/models/m.bin`)).not.toBeNull();
+      expect(rules.match(`${dir}/Caches/com.spotify.client`)).toBeNull();
+      expect(rules.match(`${dir}/Caches/tool/y`)).toBeNull();
+
+      const single = new ExclusionRules([{ glob: `${dir}/Caches/*/x/models` }]);
+      expect(single.match(`${dir}/Caches/tool`)).not.toBeNull();
+      expect(single.match(`${dir}/Caches/com.spotify.client`)).toBeNull();
+    });
+  });
+
+  test("path 規則保護路徑本身、底下的項目與上層資料夾", () => {
+    const rules = new ExclusionRules([{ path: "/data/License/", note: "授權" }]);
+    expect(rules.match("/data/License")).toBe("path:/data/License/ (授權)");
+    expect(rules.match("/data/License/key")).not.toBeNull();
+    expect(rules.match("/data")).not.toBeNull();
+    expect(rules.match("/data/LicenseOld")).toBeNull();
+  });
+
+  test("bundleId 規則比對路徑中的任一層，忽略副檔名與 Team ID 前綴", () => {
+    const rules = new ExclusionRules([{ bundleId: "com.mycorp.*" }]);
+    expect(rules.match("/Library/Preferences/com.mycorp.tool.plist")).not.toBeNull();
+    expect(rules.match("/Library/Group Containers/ABCDE12345.com.mycorp.shared")).not.toBeNull();
+    expect(rules.match("/Library/Caches/com.mycorp.tool/cache.db")).not.toBeNull();
+    expect(rules.match("/Library/Caches/com.other.tool")).toBeNull();
+  });
+});
+
+// ============================================================================
+// Glob 比對與展開
+// ============================================================================
+
+describe("glob", () => {
+  test("展開 {a,b}，可巢狀；不含逗號的 {x} 為字面字元", () => {
+    expect(expandBraces("a{b,c{d,e}}f")).toEqual(["abf", "acdf", "acef"]);
+    expect(expandBraces("a{x}")).toEqual(["a{x}"]);
+    expect(expandBraces("a\\{b,c}")).toEqual(["a\\{b,c}"]);
+  });
+
+  test("* 與 ? 不跨越路徑層，** 可為零層或多層", () => {
+    expect(globToRegExp("/a/*/c").test("/a/b/c")).toBe(true);
+    expect(globToRegExp("/a/*/c").test("/a/b/x/c")).toBe(false);
+    expect(globToRegExp("/a/?.log").test("/a/1.log")).toBe(true);
+    expect(globToRegExp("/a/?.log").test("/a/12.log")).toBe(false);
+    expect(globToRegExp("/a/**/c").test("/a/c")).toBe(true);
+    expect(globToRegExp("/a/**/c").test("/a/b/x/c")).toBe(true);
+    expect(globToRegExp("/a/**/c").test("/a/b/cc")).toBe(false);
+  });
+
+  test("字元類別、[!…] 排除、跳脫、隱藏檔與大小寫", () => {
+    expect(globToRegExp("/v[0-9]").test("/v7")).toBe(true);
+    expect(globToRegExp("/v[!0-9]").test("/v7")).toBe(false);
+    expect(globToRegExp("/v[^0-9]").test("/vx")).toBe(true);
+    expect(globToRegExp("/a\\*").test("/a*")).toBe(true);
+    expect(globToRegExp("/a\\*").test("/ab")).toBe(false);
+    expect(globToRegExp("/cache/*").test("/cache/.hidden")).toBe(true);
+    expect(globToRegExp("/Caches/{Yarn,npm}").test("/caches/YARN")).toBe(true);
+  });
+
+  test("展開時合併巢狀結果，且 ** 不沿符號連結往下", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "mac-clean-glob-"));
+    try {
+      await mkdir(join(dir, "a", "cache", "x"), { recursive: true });
+      await mkdir(join(dir, "b", "cache"), { recursive: true });
+      await mkdir(join(dir, "outside", "cache"), { recursive: true });
+      await symlink(join(dir, "outside"), join(dir, "a", "link"));
+      expect((await expandGlobPattern(`${dir}/**/cache`)).sort()).toEqual([
+        join(dir, "a", "cache"), join(dir, "b", "cache"), join(dir, "outside", "cache"),
+      ]);
+      expect(await expandGlobPattern(`${dir}/a/**/cache`)).toEqual([join(dir, "a", "cache")]);
+      expect(await expandGlobPattern(`${dir}/{a,b}/cache{,/x}`)).toEqual([join(dir, "a", "cache"), join(dir, "b", "cache")]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("以 ! 開頭的任務路徑從結果中移除", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "mac-clean-glob-"));
+    try {
+      for (const name of ["keep-me", "old-1", "old-2"]) await mkdir(join(dir, name));
+      const provider = new TaskProvider({ name: "T", description: "T", enabled: true, paths: [`${dir}/*`, `!${dir}/keep-*`] });
+      const context = { exclusions: new ExclusionRules([]), options: {}, exclude() {}, warn() {}, report() {} };
+      const targets = await provider.discover(context);
+      expect(targets.map(x => x.path).sort()).toEqual([join(dir, "old-1"), join(dir, "old-2")]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+// ============================================================================
+// 使用者設定
+// ============================================================================
+
+describe("validateUserConfig", () => {
+  // 錯誤訊息依語系翻譯，只比對開頭的設定路徑
+  const paths = (errors: string[]) => errors.map(e => e.slice(0, e.indexOf(":")));
+
+  test("合法的設定沒有錯誤", () => {
+    expect(validateUserConfig({
+      tasks: [{ name: "npm", enabled: false }, { name: "MySDK", paths: ["~/.mysdk/*"], maxAgeDays: 7, keepLatest: 2 }],
+      residualLocations: { add: [{ path: "~/Library/Logs", category: "Logs", confidenceBase: "low" }], remove: ["~/Library/WebKit"] },
+      bundleMappings: { "com.mycorp": "MyCorp" },
+      exclusions: [{ glob: "~/Library/Caches/com.mycorp.*" }],
+    })).toEqual([]);
+  });
+
+  test("回報型別錯誤與未知的設定項目", () => {
+    expect(paths(validateUserConfig({
+      task: [],
+      tasks: [{ name: "npm", enabled: "no", maxAgeDays: -1, keepLatest: 0, extra: 1 }, { name: "" }],
+      residualLocations: { add: [{ path: "~/x", category: "X", confidenceBase: "sure" }] },
+      bundleMappings: { "com.mycorp": 1 },
+      appRoots: "/Applications",
+    }))).toEqual([
+      expect.any(String),
+      "tasks[0]",
+      "tasks[0].enabled",
+      "tasks[0].maxAgeDays",
+      "tasks[0].keepLatest",
+      "tasks[1].name",
+      "residualLocations.add[0].confidenceBase",
+      "bundleMappings",
+      "appRoots",
+    ]);
+  });
+
+  test("未知的任務須提供路徑或指令；外掛未載入時無法判斷", () => {
+    const config = { tasks: [{ name: "Simulator", enabled: false }] };
+    expect(paths(validateUserConfig(config, []))).toEqual(["tasks[0]"]);
+    expect(validateUserConfig(config, ["simulator"])).toEqual([]);
+    expect(validateUserConfig(config, null)).toEqual([]);
+  });
+});
+
+describe("mergeConfig", () => {
+  test("同名的內建任務只覆寫提供的欄位，名稱不分大小寫", () => {
+    const config = mergeConfig({ tasks: [{ name: "NPM", enabled: false, maxAgeDays: 30 }] }, null);
+    expect(config.tasks.find(t => t.name === "npm")).toMatchObject({ name: "npm", enabled: false, maxAgeDays: 30 });
+    expect(config.tasks.filter(t => t.name.toLowerCase() === "npm")).toHaveLength(1);
+  });
+
+  test("新增有路徑的任務，略過沒有對象的外掛覆寫", () => {
+    const config = mergeConfig({ tasks: [{ name: "MySDK", paths: ["~/.mysdk/*"] }, { name: "Simulator", enabled: false }] }, null);
+    expect(config.tasks.find(t => t.name === "MySDK")).toMatchObject({ description: "MySDK", enabled: true, paths: ["~/.mysdk/*"] });
+    expect(config.tasks.some(t => t.name === "Simulator")).toBe(false);
+  });
+
+  test("只覆寫 Xcode 時也套用於自它拆出的 Xcode DerivedData", () => {
+    const legacy = mergeConfig({ tasks: [{ name: "Xcode", enabled: false }] }, null);
+    expect(legacy.tasks.find(t => t.name === "Xcode DerivedData")?.enabled).toBe(false);
+    const explicit = mergeConfig({ tasks: [{ name: "Xcode", enabled: false }, { name: "Xcode DerivedData", enabled: true }] }, null);
+    expect(explicit.tasks.find(t => t.name === "Xcode DerivedData")?.enabled).toBe(true);
+  });
+
+  test("殘留位置、系統前綴與 bundle 對應合併在內建值之上", () => {
+    const config = mergeConfig({
+      residualLocations: { add: [{ path: "~/Library/Caches", category: "Caches", confidenceBase: "low" }], remove: ["~/Library/Preferences"] },
+      systemPrefixes: { add: ["com.mycorp."], remove: ["apple."] },
+      bundleMappings: { "com.mycorp": "MyCorp" },
+    }, null);
+    const paths = config.residualLocations.map(l => l.path);
+    expect(paths).not.toContain("~/Library/Preferences");
+    expect(config.residualLocations.filter(l => l.path === "~/Library/Caches")).toEqual([{ path: "~/Library/Caches", category: "Caches", confidenceBase: "low" }]);
+    expect(config.systemPrefixes).toContain("com.mycorp.");
+    expect(config.systemPrefixes).not.toContain("apple.");
+    expect(config.bundleMappings).toMatchObject({ "com.mycorp": "MyCorp", "com.google": "Google" });
+  });
+});
+
+// ============================================================================
+// 刪除計畫
+// ============================================================================
+
+describe("planDeletion", () => {
+  const item = (path: string, extra: Record<string, unknown> = {}) => ({ name: basename(path), path, size: 10, ...extra });
+
+  test("一般路徑直接刪除並量測該路徑", () => {
+    const plan = planDeletion(item("/Users/me/Library/Caches/com.foo"), true);
+    expect(plan).toMatchObject({ branch: "plain", removal: "delete", measure: ["/Users/me/Library/Caches/com.foo"] });
+    expect(plan.steps).toEqual([{ kind: "rm", target: "/Users/me/Library/Caches/com.foo", optional: false }]);
+    expect(plan.quarantineId).toBeUndefined();
+  });
+
+  test("系統路徑只在有 sudo 時使用 sudo", () => {
+    const path = "/Library/Caches/com.foo";
+    expect(planDeletion(item(path), true)).toMatchObject({ branch: "system-sudo", steps: [{ kind: "sudo-rm", target: path }] });
+    expect(planDeletion(item(path), false)).toMatchObject({ branch: "plain", steps: [{ kind: "rm", target: path }] });
+  });
+
+  test("容器先嘗試刪除 Data，再刪除容器本身", () => {
+    const path = "/Users/me/Library/Containers/com.foo";
+    const plan = planDeletion(item(path), false);
+    expect(plan.branch).toBe("container");
+    expect(plan.steps.map(s => [s.kind, s.target, s.optional])).toEqual([
+      ["rm", `${path}/Data`, true],
+      ["rm", path, false],
+    ]);
+    expect(planDeletion(item(path), true).steps.every(s => s.kind === "sudo-rm")).toBe(true);
+  });
+
+  test("垃圾桶與隔離區模式改為搬移，容器以 Data 作為備援", () => {
+    const path = "/Users/me/Library/Group Containers/group.foo";
+    const trash = planDeletion(item(path), false, "trash");
+    expect(trash.quarantineId).toBeDefined();
+    expect(trash.measure).toEqual([path]);
+    expect(trash.steps[0]).toMatchObject({ kind: "move", target: path, destination: join(homedir(), ".Trash", `group.foo ${trash.quarantineId}`) });
+    expect(trash.steps[1]).toMatchObject({ kind: "move", target: `${path}/Data`, fallback: true });
+
+    const quarantine = planDeletion(item("/Library/Caches/com.foo"), true, "quarantine");
+    expect(quarantine.steps).toHaveLength(1);
+    expect(quarantine.steps[0]).toMatchObject({ kind: "sudo-move", target: "/Library/Caches/com.foo" });
+    expect(quarantine.steps[0].destination).toContain(join(quarantine.quarantineId!, "com.foo"));
+    expect(quarantine.quarantineId).not.toBe(trash.quarantineId);
+  });
+
+  test("指令只在刪除模式執行，其他模式記錄略過原因", () => {
+    const commands = ["npm cache clean --force", "yarn cache clean"];
+    const plan = planDeletion(item("", { name: "npm", commands }), false);
+    expect(plan).toMatchObject({ branch: "command", measure: [] });
+    expect(plan.steps.map(s => [s.kind, s.target])).toEqual(commands.map(c => ["command", c]));
+    expect(plan.skippedKey).toBeUndefined();
+    expect(planDeletion(item("", { name: "npm", commands }), false, "quarantine").skippedKey).toBe("delete.irreversible");
+  });
+
+  test("執行一般刪除計畫後回報釋放的空間", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "mac-clean-plan-"));
+    try {
+      const target = join(dir, "cache");
+      await mkdir(target);
+      await writeFile(join(target, "blob"), "x".repeat(4096));
+      const result = await executePlan(planDeletion(item(target), false));
+      expect(result).toMatchObject({ status: "deleted", kind: "path" });
+      expect(result.freed).toBeGreaterThan(0);
+      await expect(readFile(join(target, "blob"))).rejects.toThrow();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,21 +1,41 @@
 #!/usr/bin/env bun
-import { readdir, stat, rm, access } from "fs/promises";
-import { join, basename } from "path";
+import { readdir, stat, lstat, rm, access, mkdir, rename, cp, readFile, writeFile, rmdir, open, statfs, appendFile } from "fs/promises";
+import { existsSync, createReadStream, readdirSync, type Dirent } from "fs";
+import { join, basename, dirname, resolve } from "path";
 import { homedir } from "os";
-import { execSync } from "child_process";
+import { execSync, execFile, execFileSync } from "child_process";
+import { createHash } from "crypto";
+import { promisify } from "util";
 
 // ============================================================================
 // 介面定義
 // ============================================================================
 
+type Confidence = "high" | "medium" | "low";
+
 interface OrphanFile {
   path: string;
   type: "file" | "directory";
   size: number;
   appName: string;
   reason: string;
+  reasonKey?: MessageKey;
+  reasonParams?: MessageParams;
   confidence: "high" | "medium" | "low";
+  // 0–100，由 evidence 的權重加總而來，決定 confidence
+  score: number;
+  evidence: OrphanEvidence[];
   category: string;
+  modifiedAt: number;
+  accessedAt: number;
+}
+
+interface OrphanEvidence {
+  weight: number;
+  text: string;
+  // 訊息 key 與參數，讓結構化輸出不依賴翻譯後的文字
+  key?: MessageKey;
+  params?: MessageParams;
 }
 
 interface CleanupTask {
@@ -24,18 +44,106 @@ interface CleanupTask {
   paths: string[];
   commands?: string[];
   enabled: boolean;
+  // 只清理最後修改與最後存取都早於此天數的項目；設定時不執行 commands
+  maxAgeDays?: number;
+  // 每個產品只保留版本號最新的 N 個目錄，只提供更舊的版本清理
+  keepLatest?: number;
+  // 可由自動清理政策在無人值守時清理（只刪除路徑，不執行指令）
+  autoSafe?: boolean;
+  // 由外部工具列出可清理的資源，而非掃描路徑
+  provider?: "docker";
+  // 內建任務說明的訊息 key；結構化輸出以此識別，不依賴翻譯後的文字
+  descriptionKey?: MessageKey;
+  // 自舊任務拆出時的舊名稱；設定檔對舊名稱的覆寫也套用於此任務
+  splitFrom?: string;
 }
 
 interface ScanResult {
   orphans: OrphanFile[];
   totalSize: number;
   scannedLocations: string[];
+  excluded: ExcludedEntry[];
+  warnings: Message[];
+  // 掃描被 Ctrl-C 中止，結果只包含已掃描的部分
+  cancelled: boolean;
+}
+
+interface ExcludedEntry {
+  path: string;
+  rule: string;
+  task?: string;
 }
 
 interface CleanupItem {
   task: CleanupTask;
   paths: string[];
+  sizes: number[];
+  times: EntryTimes[];
+  totalSize: number;
+  provider?: CleanupProvider;
+  // 由 provider 的 clean() 移除的目標，各自成為可選擇的項目
+  targets?: ProviderTarget[];
+  // keepLatest 政策保留而不清理的路徑
+  kept?: string[];
+}
+
+interface EntryTimes {
+  modifiedAt: number;
+  accessedAt: number;
+}
+
+interface ScanOptions {
+  quiet?: boolean;
+  // 覆寫所有任務的 maxAgeDays，並只回報超過此天數未使用的殘留檔案
+  maxAgeDays?: number;
+  // 以檔案內容大小取代實際佔用的磁碟空間
+  apparentSize?: boolean;
+  // 單一路徑計算大小的時間上限
+  sizeTimeoutMs?: number;
+  // 同時掃描的任務或位置數量
+  concurrency?: number;
+  signal?: AbortSignal;
+  onOrphan?: (orphan: OrphanFile) => void;
+  onItem?: (item: CleanupItem) => void;
+  onProject?: (project: ProjectItem) => void;
+  onFile?: (file: PersonalFile) => void;
+  onDuplicate?: (group: DuplicateGroup) => void;
+  // 大型檔案與重複檔案的大小門檻（MB），覆寫設定檔
+  minSizeMB?: number;
+}
+
+// 內容完全相同的一組檔案：保留 keeper，其餘為可刪除的副本
+interface DuplicateGroup {
+  hash: string;
+  size: number;
+  keeper: string;
+  copies: string[];
+}
+
+interface PersonalFile {
+  path: string;
+  size: number;
+  kind: FileKind;
+  modifiedAt: number;
+  accessedAt: number;
+  // 安裝檔對應的應用程式已安裝時記錄其名稱
+  installedApp?: string;
+}
+
+interface ProjectArtifact {
+  path: string;
+  kind: string;
+  size: number;
+}
+
+interface ProjectItem {
+  name: string;
+  root: string;
+  artifacts: ProjectArtifact[];
   totalSize: number;
+  // 最後活動時間：git 紀錄或專案檔案的修改時間
+  lastActivity: number;
+  activitySource: "git" | "mtime";
 }
 
 // ============================================================================
@@ -53,6 +161,1020 @@ const colors = {
   bgBlue: "\x1b[44m",
 };
 
+// 非互動模式（管線、SSH、CI）下停用顏色
+function disableColors(): void {
+  for (const key of Object.keys(colors) as (keyof typeof colors)[]) colors[key] = "";
+}
+
+// ============================================================================
+// 語系與訊息目錄
+// ============================================================================
+
+type Locale = "zh-TW" | "en";
+
+const LOCALES: Locale[] = ["zh-TW", "en"];
+
+// 訊息以穩定的 key 查詢，{name} 為參數；zh-TW 為完整的來源目錄
+const ZH_TW = {
+  // 工具函數與內建任務
+  "date.unknown": "未知",
+  "date.today": "今天",
+  "date.daysAgo": "{n} 天前",
+  "date.monthsAgo": "{n} 個月前",
+  "date.yearsAgo": "{n} 年前",
+  "sudo.required": "⚠️  需要管理員權限以清理系統檔案",
+  "sudo.prompt": "按 y 輸入密碼取得權限，其他鍵以一般權限執行",
+  "task.systemCache": "系統快取",
+  "task.systemLogs": "系統日誌",
+  "task.diagnosticReports": "診斷報告",
+  "task.jetbrains": "JetBrains IDE 舊版本快取",
+  "task.vscode": "VSCode 快取",
+  "task.xcodeDerivedData": "Xcode 建置中間檔",
+  "task.xcode": "Xcode 封存與裝置日誌",
+  "task.xcodeDeviceSupport": "Xcode 舊版本裝置支援檔",
+  "task.iosSimulators": "iOS 模擬器",
+  "task.chrome": "Chrome 快取",
+  "task.safari": "Safari 快取",
+  "task.firefox": "Firefox 快取",
+  "task.adobe": "Adobe 快取",
+  "task.npm": "npm 快取",
+  "task.yarn": "yarn 快取",
+  "task.pnpm": "pnpm 快取",
+  "task.bun": "Bun 快取",
+  "task.homebrew": "Homebrew 快取",
+  "task.cocoapods": "CocoaPods 快取",
+  "task.gradle": "Gradle 快取",
+  "task.gradleWrapper": "Gradle Wrapper 舊版本",
+  "task.maven": "Maven 快取",
+  "task.node": "nvm 與 fnm 的舊版 Node",
+  "task.rustup": "rustup 的舊版工具鏈",
+  "task.go": "Go 快取",
+  "task.cargo": "Rust 快取",
+  "task.pip": "pip 快取",
+  "task.gem": "gem 快取",
+  "task.composer": "Composer 快取",
+  "task.deno": "Deno 快取",
+  "task.flutter": "Flutter 快取",
+  "task.docker": "Docker 映像檔、容器、volume 與建置快取",
+  "task.steam": "Steam 快取",
+  "task.minecraft": "Minecraft 日誌",
+  "task.dns": "DNS 快取",
+
+  // 設定檔
+  "config.mustBeStringArray": "必須是字串陣列",
+  "config.mustBeNonEmptyString": "必須是非空字串",
+  "config.mustBeString": "必須是字串",
+  "config.mustBeArray": "必須是陣列",
+  "config.mustBeObject": "必須是物件",
+  "config.mustBeBoolean": "必須是 true 或 false",
+  "config.mustBeNonNegative": "必須是大於或等於 0 的數字",
+  "config.mustBePositiveInt": "必須是大於或等於 1 的整數",
+  "config.mustBeConfidence": "必須是 \"high\"、\"medium\" 或 \"low\"",
+  "config.mustBeAddRemove": "必須是含 add / remove 的物件",
+  "config.mustBePersonalFiles": "必須是含 roots / minSizeMB / olderThanDays 的物件",
+  "config.targetBelowMin": "不可小於 minFreeGB",
+  "config.oneExclusionKind": "必須擇一指定 glob、path 或 bundleId",
+  "config.mustBeBundleMappings": "必須是 { \"bundle ID 前綴\": \"應用程式名稱\" } 物件",
+  "config.unknownKey": "未知的設定項目 \"{key}\"（可用: {allowed}）",
+  "config.root": "(根)",
+  "config.rootNotObject": "設定檔的最外層必須是 JSON 物件",
+  "config.taskNeedsPaths": "新任務 \"{name}\" 至少需要 paths 或 commands",
+  "config.readFailed": "無法讀取設定檔 {file}: {error}",
+  "config.ignored": "設定檔無法使用，改用內建預設值: {error}",
+  "config.invalidJson": "設定檔 {file} 不是有效的 JSON: {error}",
+  "config.errors": "設定檔 {file} 有 {n} 個錯誤:\n{details}",
+
+  // 掃描、隔離區與刪除
+  "scan.excluded": "已依排除規則略過 {n} 個項目:",
+  "size.cancelled": "已取消",
+  "size.timeout": "超過 {seconds} 秒",
+  "size.partial": "{path}: {reason}，大小為部分結果",
+  "size.unreadable": "{path}: 無法讀取 ({error})",
+  "scan.cancelled": "⚠️  掃描已中止 (Ctrl-C)，以上為部分結果",
+  "scan.warnings": "⚠️  掃描時有 {n} 個警告，結果可能不完整:",
+  "scan.progressFound": "已找到 {size}",
+  "quarantine.manifestUnreadable": "無法讀取隔離區紀錄 {file}: {error}",
+  "quarantine.originalExists": "原路徑已存在，為避免覆蓋已略過",
+  "quarantine.storedMissing": "找不到隔離的檔案 {path}",
+  "quarantine.restoreNeedsSudo": "此項目以管理員權限移除，還原需要 --sudo",
+  "quarantine.purgeNeedsSudo": "此項目以管理員權限移除，清除需要 --sudo",
+  "quarantine.invalidDuration": "無效的時間長度: {text}（例如 30d、12h、2w）",
+  "delete.pathMissing": "路徑不存在",
+  "delete.excluded": "受排除規則保護: {rule}",
+  "delete.sipProtected": "SIP 保護",
+  "delete.contentChanged": "掃描後內容已變更，或已沒有內容相同的其他副本，未刪除",
+  "delete.irreversible": "無法移至隔離區或垃圾桶，已略過；只在直接刪除模式下執行",
+  "plan.title": "📋 刪除計畫",
+  "plan.dryRun": "(試執行，不會變更任何檔案)",
+  "plan.blocked": "[已排除]",
+  "plan.skipped": "[略過]",
+  "plan.optional": " (失敗時略過)",
+  "plan.fallback": " (前一步失敗時執行)",
+  "plan.total": "共 {n} 個項目，預計釋放 {size}",
+  "plan.totalMoved": "共 {n} 個項目，預計移至{target} {size}",
+  "delete.deleting": "正在刪除...",
+  "delete.trashing": "正在移至垃圾桶...",
+  "delete.quarantining": "正在移至隔離區...",
+  "delete.sipPartial": "已清空內容，外殼受 SIP 保護",
+  "delete.success": "成功: {n}",
+  "delete.failed": "失敗: {n}",
+  "delete.skipped": "略過: {n}",
+  "delete.freed": "釋放: {size}",
+  "delete.moved": "移至{target}: {size}（尚未釋放空間）",
+  "delete.measured": "(實際量測)",
+  "delete.restoreHint": "可使用 mac-clean-ts restore <id> 還原，purge --older-than <時間> 永久清除",
+
+  // 互動式選單
+  "removal.delete": "永久刪除",
+  "removal.quarantine": "隔離區",
+  "removal.trash": "垃圾桶",
+  "sort.default": "預設",
+  "sort.size": "大小",
+  "sort.name": "名稱",
+  "sort.category": "分類",
+  "sort.age": "最久未修改",
+  "selector.helpNav": "↑/↓ 選擇 | PgUp/PgDn 翻頁 | Home/End 首尾 | →/Enter 展開 | ← 返回",
+  "selector.helpActions": "空白鍵 標記 | a 全選 | / 搜尋 | s 排序 | t 切換移除方式 | q 退出",
+  "selector.helpDelete": "d 刪除已標記的項目，刪除前會先顯示確認畫面；Enter 只展開，不會刪除",
+  "selector.helpPreview": "d 預覽已標記項目的刪除計畫；Enter 只展開，不會刪除",
+  "selector.helpConfidence": "1 高信心 | 2 中信心 | 3 低信心 | 0 全部",
+  "selector.filterAll": "全部",
+  "selector.filterHigh": "🔴高",
+  "selector.filterMedium": "🟡中",
+  "selector.filterLow": "⚪低",
+  "selector.status": "已標記: {count} | 大小: {size} | 篩選: {filter} | 排序: {sort} | 移除方式: {removal}",
+  "selector.maxAge": " | 超過 {days} 天未使用",
+  "selector.search": "搜尋: /{query}{cursor} {hint}",
+  "selector.searchCount": "({n}/{total} 項)",
+  "selector.searchEditing": "({n}/{total} 項，Enter 完成，Esc 清除)",
+  "selector.path": "路徑: {value}",
+  "selector.command": "指令: {value}",
+  "selector.actionDetail": "動作：執行上列指令，不計算大小",
+  "selector.size": "大小: {value}",
+  "selector.times": "最後修改: {modified} | 最後存取: {accessed}",
+  "selector.needsSudo": "⚠️  需要管理員權限，目前可能無法完整清理",
+  "selector.score": "信心分數: {score}/100",
+  "selector.kept": "保留（每個產品最新 {n} 個版本）:",
+  "selector.removed": "移除:",
+  "selector.morePaths": "... 還有 {n} 個路徑",
+  "selector.empty": "沒有符合條件的項目",
+  "selector.actionSize": "執行指令",
+  "selector.pathCategory": "路徑",
+  "selector.measuring": "計算 {name} 內的大小...",
+  "selector.folder": "資料夾",
+  "selector.file": "檔案",
+  "selector.commandOnly": "此項目由指令清理，無法展開",
+  "selector.notFolder": "不是資料夾，無法展開",
+  "selector.emptyFolder": "資料夾是空的",
+  "selector.deleteHint": "Enter 只用來展開；要刪除已標記的項目請按 d",
+  "selector.nothingMarked": "沒有標記要刪除的項目",
+  "selector.confirmTitle": "⚠️  確認刪除",
+  "selector.aboutToDelete": "即將刪除 {n} 個項目:",
+  "selector.andPaths": " 等 {n} 個路徑",
+  "selector.moreItems": "... 還有 {n} 個",
+  "selector.total": "總計: {size}",
+  "common.irreversible": "⚠️  無法復原！",
+  "selector.movedTo": "將移至{target}，可使用 mac-clean-ts restore 還原",
+  "selector.noSudo": "⚠️  無管理員權限，系統檔案可能刪除失敗",
+  "common.confirmPrompt": "按 {key} 確認，其他鍵取消",
+  "common.pressAnyKey": "按任意鍵繼續...",
+  "selector.noItems": "沒有發現項目！",
+  "selector.covered": "已包含在已標記的上層項目中",
+  "selector.keepOne": "⚠️  每組重複檔案至少要保留一份",
+
+  // 外掛、Docker、快取掃描與自動清理
+  "plugin.loadFailed": "無法載入外掛 {spec}: {error}",
+  "plugin.badExport": "外掛 {spec}: 預設匯出必須是含 name 與 discover() 的 provider 或其陣列",
+  "plugin.duplicate": "外掛 {spec}: provider 名稱 \"{name}\" 重複，已略過",
+  "plugin.clash": "外掛 {spec}: provider \"{name}\" 與內建任務同名，已略過",
+  "docker.danglingImage": "未標記的映像檔",
+  "docker.unusedImage": "未使用的映像檔",
+  "docker.stoppedContainer": "已停止的容器",
+  "docker.unusedVolume": "未使用的 volume",
+  "docker.buildCache": "建置快取",
+  "docker.buildCacheName": "BuildKit 建置快取（所有未使用的）",
+  "docker.unparsable": "docker system df: 無法解析輸出",
+  "docker.commandFailed": "docker {command}: {reason}",
+  "cache.scanTitle": "🔍 掃描開發環境快取",
+  "cache.progress": "掃描快取",
+  "provider.discoverFailed": "無法列出可清理項目 ({error})",
+  "provider.noPath": "{name} 沒有路徑，且 provider 未實作 clean()，略過",
+  "provider.warning": "{provider}: {message}",
+  "provider.sizeFailed": "{name}: 無法計算大小 ({error})",
+  "auto.enoughSpace": "可用空間充足，不需清理",
+  "auto.targetReached": "已達目標可用空間",
+  "auto.maxPerRun": "已達單次清理上限",
+  "auto.noCandidates": "已無符合條件的項目",
+  "auto.cancelled": "已中止",
+  "auto.taskNotFound": "autoClean.tasks: 找不到清理任務 {name}",
+  "auto.taskNotSafe": "autoClean.tasks: {name} 未標示為 autoSafe，不可自動清理",
+  "auto.notNeeded": "可用空間 {free}，未低於 {min} GB，不需清理",
+  "auto.triggered": "可用空間 {free}，低於 {min} GB，清理至 {target} GB",
+  "auto.dryRun": "（試執行）",
+  "auto.tasks": "任務: {tasks}",
+  "auto.none": "（無）",
+  "auto.warning": "警告: {message}",
+  "auto.planned": "將刪除 [{task}] {path} ({size}，{days} 天未使用)",
+  "auto.failed": "失敗 [{task}] {path}: {error}",
+  "auto.deleted": "已刪除 [{task}] {path} ({size})",
+  "auto.finished": "結束: {reason}，共釋放 {freed}，可用空間 {free}",
+  "auto.finishedDryRun": "結束: {reason}，預計釋放 {freed}，可用空間 {free}",
+
+  // 專案、個人檔案、重複檔案與殘留檔案掃描
+  "projects.scanTitle": "🔍 掃描專案建置產物",
+  "projects.finding": "尋找專案...",
+  "projects.found": "在 {roots} 找到 {count} 個含建置產物的專案",
+  "projects.progress": "掃描專案",
+  "fileKind.installer": "安裝檔",
+  "fileKind.archive": "壓縮檔",
+  "fileKind.media": "影音檔",
+  "fileKind.vm": "虛擬機",
+  "fileKind.other": "其他",
+  "files.scanTitle": "🔍 掃描大型與舊檔案",
+  "files.loadingApps": "載入已安裝應用程式...",
+  "files.criteria": "列出大於 {minSize}，或超過 {days} 天未使用且大於 {floor} 的檔案",
+  "files.progress": "掃描資料夾",
+  "dupes.unreadable": "{path}: 無法讀取 ({error})",
+  "dupes.scanTitle": "🔍 掃描重複檔案",
+  "dupes.roots": "掃描: {roots}",
+  "dupes.bySize": "比對檔案大小...",
+  "dupes.partial": "比對部分內容",
+  "dupes.full": "比對完整內容",
+  "orphans.appsLoaded": "已載入 {count} 個已安裝應用程式",
+  "evidence.location": "位於 {category}（{path}）",
+  "evidence.uuid": "UUID 格式名稱，無法判斷屬於哪個應用程式",
+  "evidence.bundleId": "名稱為 bundle ID 格式，且沒有已安裝的應用程式使用此 ID",
+  "evidence.notBundleId": "名稱不是 bundle ID，只能以名稱比對",
+  "evidence.sameVendor": "同廠商的 {owner} 仍安裝中",
+  "evidence.sameTeam": "同開發者 (Team ID) 的 {owner} 仍安裝中",
+  "evidence.knownVendor": "已知廠商 {vendor}，但沒有安裝該廠商的應用程式",
+  "evidence.idle": "已 {days} 天未修改或存取",
+  "evidence.recent": "最近 7 天內仍有修改或存取，可能仍在使用",
+  "evidence.multipleLocations": "在 {count} 個位置都有殘留（{locations}）",
+  "orphans.reason": "在 {category} 發現，找不到對應的已安裝應用程式",
+  "orphans.reasonVendor": "在 {category} 發現；同廠商的 {owner} 仍安裝中，但沒有應用程式直接對應此項目",
+  "orphans.reasonTeam": "在 {category} 發現；同開發者的 {owner} 仍安裝中，但沒有應用程式直接對應此項目",
+  "orphans.scanTitle": "🔍 掃描應用程式殘留檔案",
+  "orphans.scanningLocations": "📁 掃描 {count} 個位置...",
+  "orphans.progress": "掃描位置",
+  "orphans.reportTitle": "📊 掃描報告",
+  "orphans.found": "發現: {count} 個殘留項目",
+  "orphans.cleanable": "可清理: {size}",
+  "orphans.byConfidence": "按信心度:",
+  "orphans.high": "🔴 高: {count} 個 ({size})",
+  "orphans.medium": "🟡 中: {count} 個 ({size})",
+  "orphans.low": "⚪ 低: {count} 個 ({size})",
+  "orphans.none": "✓ 未發現殘留檔案！",
+  "plist.missingClose": "plist 格式錯誤: 缺少 </{tag}>",
+  "plist.expectedValue": "plist 格式錯誤: 預期為值",
+  "plist.expectedKey": "plist 格式錯誤: dict 中預期為 <key>",
+  "plist.unknownTag": "plist 格式錯誤: 未知的標籤 <{tag}>",
+  "plist.tooShort": "plist 格式錯誤: 檔案過短",
+  "plist.offsetsOutOfRange": "plist 格式錯誤: 偏移表超出範圍",
+  "plist.refOutOfRange": "plist 格式錯誤: 物件參照超出範圍",
+  "plist.tooDeep": "plist 格式錯誤: 巢狀過深",
+  "plist.unknownType": "plist 格式錯誤: 未知的物件類型 0x{marker}",
+
+  // 命令列說明
+  "cli.usage": `用法: mac-clean-ts [指令] [選項]
+
+未指定指令時進入互動式選單。
+
+指令:
+  orphans scan              掃描應用程式殘留檔案
+  orphans clean             刪除殘留檔案（依 --confidence 篩選）
+  cache scan                掃描開發環境快取（可用 --task 限定）
+  cache clean               清理快取（需指定 --task 或 --all）
+  projects scan             掃描工作區內專案的建置產物（node_modules、target、.venv 等）
+  projects clean            清理專案建置產物（可用 --max-age 只清理久未活動的專案）
+  files scan                列出下載、桌面與文件中的大型或久未使用的檔案
+  files clean [路徑...]     刪除對應應用程式已安裝的安裝檔（指定路徑或 --confidence low 時
+                            刪除範圍內找到的所有檔案）
+  dupes scan [路徑...]      以內容雜湊找出重複檔案（未指定路徑時使用設定檔的 duplicateRoots）
+  dupes clean [路徑...]     刪除重複檔案，每組保留一份（最舊的檔案）
+  clean --all               清理所有快取與殘留檔案
+  auto                      依設定檔的 autoClean 政策，在可用空間不足時自動清理可安全清理的快取
+                            （不需 --yes，不會刪除殘留檔案，並將結果寫入紀錄檔）
+  config                    顯示合併內建預設值後的有效設定
+  quarantine                列出隔離區與垃圾桶中可還原的項目
+  restore <id...>           還原隔離的項目（或 --all 全部還原）
+  purge --older-than <時間> 永久清除超過指定時間的隔離項目（或 --all）
+  stats                     顯示累計釋放空間、成長最快的快取與反覆出現的殘留檔案（紀錄保留 180 天）
+  help                      顯示此說明
+
+選項:
+  -t, --task <名稱,...>     指定清理任務，以逗號分隔（例如 npm,Gradle）
+  -a, --all                 選擇所有已啟用的任務
+      --max-age <天數>      只處理超過指定天數未修改且未存取的項目（覆寫任務的 maxAgeDays，不執行任務指令）
+  -w, --workspace <路徑,...> 專案掃描的工作區，以逗號分隔（覆寫設定檔的 workspaceRoots）
+      --min-size <MB>       files 的大型檔案門檻（預設 {minSize} MB）；--max-age 則為久未使用的門檻
+                            dupes 則忽略小於此大小的檔案（預設 {dupeMinSize} KB）
+  -j, --jobs <數量>         同時掃描的任務或位置數量（預設 {jobs}）
+      --apparent-size       以檔案內容大小計算，而非實際佔用的磁碟空間
+      --size-timeout <秒>   單一路徑計算大小的時間上限（預設 120 秒，逾時以部分結果回報）
+      --confidence <等級>   殘留檔案與個人檔案的最低信心度: high | medium | low（預設 high）
+  -y, --yes                 不詢問，直接刪除
+      --quarantine          移至隔離區 (~/.local/share/mac-clean-ts/quarantine) 而非永久刪除
+      --trash               移至垃圾桶 (~/.Trash) 而非永久刪除
+      --older-than <時間>   purge 的時間門檻，例如 30d、12h、2w
+      --since <時間>        stats 計算快取成長的期間（預設 7d）
+  -n, --dry-run             試執行：列出將執行的刪除步驟與指令及預計釋放空間，不變更任何檔案
+                            （不帶指令時以試執行模式進入互動式選單）
+      --sudo                使用管理員權限，必要時詢問密碼
+      --no-sudo             不使用管理員權限
+                            （預設僅沿用已快取的 sudo 憑證，不會詢問密碼）
+      --no-tty              非互動模式：停用顏色、進度動畫與按鍵確認
+      --format <格式>       輸出格式: text | json | ndjson（預設 text）
+      --json                等同 --format json，結束時輸出單一 JSON 文件
+      --ndjson              等同 --format ndjson，掃描時逐行輸出事件
+  -c, --config <路徑>       設定檔路徑（預設 ~/.config/mac-clean-ts/config.json）
+      --lang <語系>         介面語言: zh-TW | en（預設依 LC_ALL、LC_MESSAGES、LANG 判斷）
+  -h, --help                顯示此說明
+
+結束代碼:
+  0  未發現可清理項目，或清理全部成功
+  1  發生錯誤（參數錯誤、無法取得權限或有項目刪除失敗）
+  2  發現可清理項目（掃描結果、試執行計畫，或使用者取消清理）
+  130  掃描被 Ctrl-C 中止（掃描指令仍會輸出部分結果，清理指令不會刪除任何項目）
+
+json / ndjson 輸出皆帶有 schemaVersion 欄位（目前為 {schemaVersion}），
+非 text 格式時刪除必須加上 --yes，錯誤訊息一律輸出至 stderr。`,
+
+  // 主選單與命令列參數
+  "menu.orphans": "掃描應用程式殘留檔案",
+  "menu.orphansDesc": "找出已解除安裝應用程式的殘留資料",
+  "menu.cache": "清理開發環境快取",
+  "menu.cacheDesc": "掃描並清理開發工具的快取",
+  "menu.full": "完整清理",
+  "menu.fullDesc": "先清理快取，再掃描殘留",
+  "menu.projects": "清理專案建置產物",
+  "menu.projectsDesc": "node_modules、target、.venv 等專案內的建置產物",
+  "menu.files": "大型與舊檔案",
+  "menu.filesDesc": "下載、桌面與文件中的大型檔案、安裝檔與久未使用的檔案",
+  "menu.dupes": "重複檔案",
+  "menu.dupesDesc": "以內容雜湊找出重複的檔案，每組保留一份",
+  "menu.quit": "退出",
+  "menu.quitDesc": "離開程式",
+  "menu.title": "🧹 macOS 清理工具 v3.0",
+  "menu.help": "使用 ↑/↓ 選擇，Enter 確認",
+  "menu.admin": "✓ 管理員權限",
+  "menu.user": "⚠ 一般權限",
+  "cli.needsValue": "{flag} 需要參數值",
+  "cli.badConfidence": "無效的信心度: {value}（可用 high、medium、low）",
+  "cli.badFormat": "無效的輸出格式: {value}（可用 text、json、ndjson）",
+  "cli.badLang": "無效的語系: {value}（可用 {locales}）",
+  "cli.badDays": "無效的天數: {value}",
+  "cli.badSize": "無效的大小: {value}",
+  "cli.badCount": "無效的數量: {value}",
+  "cli.badSeconds": "無效的秒數: {value}",
+  "cli.unknownOption": "未知的選項: {option}",
+  "cli.sudoNoTty": "非互動模式無法詢問密碼，請先執行 sudo -v 或改用 --no-sudo",
+  "cli.sudoFailed": "無法取得管理員權限",
+
+  // 選擇項目與掃描結果列表
+  "common.enumSeparator": "、",
+  "common.listSeparator": "，",
+  "common.days": "{n} 天",
+  "cli.taskNotFound": "找不到清理任務: {name}\n可用的任務: {tasks}",
+  "cache.keptDetail": "{description} ({count} 個舊版本，保留 {kept} 個)",
+  "cache.pathsDetail": "{description} ({count} 個路徑)",
+  "cache.actionCategory": "動作",
+  "provider.removeWith": "以 {how} 移除",
+  "provider.removeWithCategory": "{category}，以 {how} 移除",
+  "projects.detail": "{kinds} · 最後活動依據{source}",
+  "projects.sourceGit": " git 紀錄",
+  "projects.sourceMtime": "檔案修改時間",
+  "projects.summary": "發現 {count} 個專案，可釋放 {size}",
+  "files.installedDetail": "{app} 已安裝，可刪除此安裝檔",
+  "files.skippedUnsure": "略過 {count} 個不確定可刪除的檔案（只有對應應用程式已安裝的安裝檔會自動清理）；請指定路徑或加上 --confidence low",
+  "files.installed": "✓ {app} 已安裝",
+  "files.summary": "發現 {count} 個檔案，共 {size}",
+  "dupes.group": "群組 {n}",
+  "dupes.keeperDetail": "建議保留（最舊的一份），另有 {count} 份相同內容",
+  "dupes.copyDetail": "與 {keeper} 內容相同",
+  "dupes.summary": "發現 {count} 組重複檔案，可釋放 {size}",
+  "cache.summary": "發現 {count} 個可清理項目，共 {size}",
+  "cache.paths": "{count} 個路徑",
+  "cache.resources": "、{count} 個資源",
+  "cache.commandOnly": "只執行指令: {commands}",
+
+  // 設定、隔離區、清理確認與主流程
+  "config.file": "設定檔: {file}",
+  "config.fileUnused": "(未使用，預設位置 {path})",
+  "config.tasks": "清理任務 ({enabled}/{total} 啟用):",
+  "config.keepLatest": "保留最新 {n} 個版本",
+  "config.plugin": "外掛",
+  "config.autoSafe": "可自動清理",
+  "config.needsSudo": "需要管理員權限",
+  "config.notes": "（{notes}）",
+  "config.locations": "殘留檔案位置:",
+  "config.bundleMappings": "Bundle ID 對應: {count} 筆",
+  "config.systemPrefixes": "系統項目前綴: {list}",
+  "config.appRoots": "應用程式位置: {list}",
+  "config.workspaces": "專案工作區: {list}",
+  "config.personalFiles": "大型與舊檔案: {roots}（> {minSize} MB 或 {days} 天未使用）",
+  "config.duplicates": "重複檔案: {list}",
+  "config.autoClean": "自動清理: 可用空間低於 {min} GB 時清理至 {target} GB，單次最多 {max} GB，只清理超過 {days} 天未使用的項目",
+  "config.autoTasks": "任務: {tasks}",
+  "config.autoAllTasks": "所有標示為可自動清理的任務",
+  "config.autoLog": "紀錄: {file}",
+  "config.exclusions": "排除規則 ({count}):",
+  "quarantine.empty": "隔離區是空的",
+  "quarantine.summary": "隔離區共 {count} 個項目，{size}",
+  "quarantine.noMatch": "沒有符合條件的隔離項目",
+  "quarantine.restored": "已還原 {count} 個項目，{size}",
+  "quarantine.purged": "已永久清除 {count} 個項目，{size}",
+  "clean.nothing": "✓ 沒有需要清理的項目",
+  "clean.needSudo": "⚠️  以下項目需要管理員權限，未加上 --sudo 時可能無法完整清理: {names}",
+  "clean.aboutToDelete": "即將刪除 {count} 個項目，共 {size}",
+  "clean.aboutToMove": "即將移至{target} {count} 個項目，共 {size}",
+  "clean.needsYes": "非互動模式下刪除需要加上 --yes",
+  "clean.movedTo": "將移至{target}，可使用 restore 還原",
+  "clean.cancelled": "已取消",
+  "clean.interrupted": "掃描已中止，未刪除任何項目",
+  "cache.none": "✓ 沒有發現需要清理的快取！",
+  "cli.cacheCleanNeedsTask": "cache clean 需要指定 --task 或 --all",
+  "cli.cleanNeedsAll": "clean 需要加上 --all",
+  "projects.none": "✓ 沒有發現專案建置產物！",
+  "files.none": "✓ 沒有發現大型或久未使用的檔案！",
+  "dupes.none": "✓ 沒有發現重複檔案！",
+  "cli.restoreNeedsId": "restore 需要指定 id 或 --all（執行 mac-clean-ts quarantine 查看）",
+  "cli.notInQuarantine": "隔離區中找不到: {ids}",
+  "cli.autoDeleteOnly": "auto 只能直接刪除：移至隔離區或垃圾桶不會釋放空間",
+  "cli.purgeNeedsAge": "purge 需要指定 --older-than 或 --all",
+  "cli.unknownCommand": "未知的指令: {command}\n執行 mac-clean-ts --help 查看用法",
+  "cli.error": "錯誤: {message}",
+  "cli.warning": "警告: {message}",
+  "cli.menuNeedsTty": "互動式選單需要終端機，請指定指令（執行 mac-clean-ts --help 查看用法）",
+  "menu.enterCleanup": "按 {key} 進入清理，其他鍵返回選單",
+  "menu.enterCleanupSkip": "按 {key} 進入清理，其他鍵跳過",
+  "menu.orphansTitle": "🗑️  殘留檔案清理",
+  "menu.cacheTitle": "🧹 開發環境快取清理",
+  "menu.projectsTitle": "📦 專案建置產物清理",
+  "menu.filesTitle": "📁 大型與舊檔案清理",
+  "menu.dupesTitle": "🧬 重複檔案清理",
+  "menu.cacheFound": "發現 {count} 個可清理項目，共 {size}",
+  "menu.cacheItemsFound": "發現 {count} 個快取項目，共 {size}",
+  "menu.projectsFound": "發現 {count} 個專案，共 {size}",
+  "menu.filesFound": "發現 {count} 個檔案，共 {size}",
+  "menu.installersHint": "其中 {count} 個安裝檔的應用程式已安裝（按 1 篩選）",
+  "menu.dupesDefaultRoots": "預設掃描: {roots}",
+  "menu.dupesAskRoots": "要掃描的資料夾（以逗號分隔，直接按 Enter 使用預設）: ",
+  "menu.dupesFound": "發現 {count} 組重複檔案，可釋放 {size}",
+  "menu.dupesKeeperHint": "★ 為建議保留的檔案；每組至少會保留一份",
+  "menu.bye": "再見！",
+
+  // 執行紀錄與統計
+  "history.unreadable": "無法讀取執行紀錄 {file}: {error}",
+  "history.writeFailed": "無法寫入執行紀錄 {file}: {error}",
+  "stats.empty": "尚無執行紀錄（{file}）；執行掃描或清理後即會開始記錄",
+  "stats.title": "📈 清理統計",
+  "stats.range": "紀錄期間: {first} ～ {last}，共 {scans} 次掃描、{cleanups} 次清理",
+  "stats.reclaimed": "累計釋放: {size}",
+  "stats.moved": "另有 {size} 移至隔離區或垃圾桶",
+  "stats.reclaimedBy": "釋放最多的項目:",
+  "stats.growth": "成長最快的快取（{since} 以來）:",
+  "stats.growthLine": "目前 {size}，比較自 {since}",
+  "stats.noGrowth": "期間內沒有快取成長，或快取掃描不足兩次",
+  "stats.orphans": "最近一次殘留檔案掃描（{at}）: 高 {high}、中 {medium}、低 {low}，共 {size}",
+  "stats.recurring": "刪除後又出現的殘留檔案:",
+  "stats.returns": "{n} 次",
+  "stats.noRecurring": "沒有刪除後又出現的殘留檔案",
+};
+
+type MessageKey = keyof typeof ZH_TW;
+type MessageParams = Record<string, string | number>;
+
+const EN: Partial<Record<MessageKey, string>> = {
+  // 工具函數與內建任務
+  "date.unknown": "unknown",
+  "date.today": "today",
+  "date.daysAgo": "{n} days ago",
+  "date.monthsAgo": "{n} months ago",
+  "date.yearsAgo": "{n} years ago",
+  "sudo.required": "⚠️  Administrator privileges are needed to clean system files",
+  "sudo.prompt": "Press y to enter your password, or any other key to continue without them",
+  "task.systemCache": "System caches",
+  "task.systemLogs": "System logs",
+  "task.diagnosticReports": "Diagnostic reports",
+  "task.jetbrains": "Old JetBrains IDE version caches",
+  "task.vscode": "VSCode cache",
+  "task.xcodeDerivedData": "Xcode intermediate build files",
+  "task.xcode": "Xcode archives and device logs",
+  "task.xcodeDeviceSupport": "Old Xcode device support files",
+  "task.iosSimulators": "iOS simulators",
+  "task.chrome": "Chrome cache",
+  "task.safari": "Safari cache",
+  "task.firefox": "Firefox cache",
+  "task.adobe": "Adobe cache",
+  "task.npm": "npm cache",
+  "task.yarn": "yarn cache",
+  "task.pnpm": "pnpm cache",
+  "task.bun": "Bun cache",
+  "task.homebrew": "Homebrew cache",
+  "task.cocoapods": "CocoaPods cache",
+  "task.gradle": "Gradle cache",
+  "task.gradleWrapper": "Old Gradle Wrapper versions",
+  "task.maven": "Maven cache",
+  "task.node": "Old Node versions installed by nvm and fnm",
+  "task.rustup": "Old rustup toolchains",
+  "task.go": "Go cache",
+  "task.cargo": "Rust cache",
+  "task.pip": "pip cache",
+  "task.gem": "gem cache",
+  "task.composer": "Composer cache",
+  "task.deno": "Deno cache",
+  "task.flutter": "Flutter cache",
+  "task.docker": "Docker images, containers, volumes and build cache",
+  "task.steam": "Steam cache",
+  "task.minecraft": "Minecraft logs",
+  "task.dns": "DNS cache",
+
+  // 設定檔
+  "config.mustBeStringArray": "must be an array of strings",
+  "config.mustBeNonEmptyString": "must be a non-empty string",
+  "config.mustBeString": "must be a string",
+  "config.mustBeArray": "must be an array",
+  "config.mustBeObject": "must be an object",
+  "config.mustBeBoolean": "must be true or false",
+  "config.mustBeNonNegative": "must be a number greater than or equal to 0",
+  "config.mustBePositiveInt": "must be an integer greater than or equal to 1",
+  "config.mustBeConfidence": "must be \"high\", \"medium\" or \"low\"",
+  "config.mustBeAddRemove": "must be an object with add / remove",
+  "config.mustBePersonalFiles": "must be an object with roots / minSizeMB / olderThanDays",
+  "config.targetBelowMin": "must not be less than minFreeGB",
+  "config.oneExclusionKind": "must specify exactly one of glob, path or bundleId",
+  "config.mustBeBundleMappings": "must be a { \"bundle ID prefix\": \"app name\" } object",
+  "config.unknownKey": "unknown setting \"{key}\" (allowed: {allowed})",
+  "config.root": "(root)",
+  "config.rootNotObject": "the top level of the config file must be a JSON object",
+  "config.taskNeedsPaths": "new task \"{name}\" needs paths or commands",
+  "config.readFailed": "Cannot read config file {file}: {error}",
+  "config.ignored": "The config file cannot be used, so the built-in defaults apply: {error}",
+  "config.invalidJson": "Config file {file} is not valid JSON: {error}",
+  "config.errors": "Config file {file} has {n} error(s):\n{details}",
+
+  // 掃描、隔離區與刪除
+  "scan.excluded": "Skipped {n} item(s) by exclusion rules:",
+  "size.cancelled": "cancelled",
+  "size.timeout": "exceeded {seconds} seconds",
+  "size.partial": "{path}: {reason}, size is a partial result",
+  "size.unreadable": "{path}: cannot read ({error})",
+  "scan.cancelled": "⚠️  Scan interrupted (Ctrl-C); the results above are partial",
+  "scan.warnings": "⚠️  {n} warning(s) during the scan; results may be incomplete:",
+  "scan.progressFound": "found {size}",
+  "quarantine.manifestUnreadable": "Cannot read the quarantine manifest {file}: {error}",
+  "quarantine.originalExists": "the original path already exists; skipped to avoid overwriting it",
+  "quarantine.storedMissing": "quarantined file not found: {path}",
+  "quarantine.restoreNeedsSudo": "this item was removed with administrator privileges; restoring it needs --sudo",
+  "quarantine.purgeNeedsSudo": "this item was removed with administrator privileges; purging it needs --sudo",
+  "quarantine.invalidDuration": "Invalid duration: {text} (for example 30d, 12h, 2w)",
+  "delete.pathMissing": "path does not exist",
+  "delete.excluded": "protected by exclusion rule: {rule}",
+  "delete.sipProtected": "protected by SIP",
+  "delete.contentChanged": "content changed since the scan, or no identical copy remains; not deleted",
+  "delete.irreversible": "Cannot be moved to the quarantine or Trash, so it was skipped; it only runs in delete mode",
+  "plan.title": "📋 Deletion plan",
+  "plan.dryRun": "(dry run, no files will be changed)",
+  "plan.blocked": "[excluded]",
+  "plan.skipped": "[skipped]",
+  "plan.optional": " (skipped on failure)",
+  "plan.fallback": " (runs if the previous step fails)",
+  "plan.total": "{n} item(s), expected to free {size}",
+  "plan.totalMoved": "{n} item(s), {size} expected to move to the {target}",
+  "delete.deleting": "Deleting...",
+  "delete.trashing": "Moving to the Trash...",
+  "delete.quarantining": "Moving to quarantine...",
+  "delete.sipPartial": "contents removed, the container is protected by SIP",
+  "delete.success": "Succeeded: {n}",
+  "delete.failed": "Failed: {n}",
+  "delete.skipped": "Skipped: {n}",
+  "delete.freed": "Freed: {size}",
+  "delete.moved": "Moved to the {target}: {size} (not freed yet)",
+  "delete.measured": "(measured)",
+  "delete.restoreHint": "Use mac-clean-ts restore <id> to restore, or purge --older-than <duration> to remove permanently",
+
+  // 互動式選單
+  "removal.delete": "delete permanently",
+  "removal.quarantine": "quarantine",
+  "removal.trash": "Trash",
+  "sort.default": "default",
+  "sort.size": "size",
+  "sort.name": "name",
+  "sort.category": "category",
+  "sort.age": "least recently modified",
+  "selector.helpNav": "↑/↓ move | PgUp/PgDn page | Home/End first/last | →/Enter open | ← back",
+  "selector.helpActions": "Space mark | a mark all | / search | s sort | t removal mode | q quit",
+  "selector.helpDelete": "d delete the marked items after a confirmation screen; Enter only opens and never deletes",
+  "selector.helpPreview": "d preview the deletion plan for the marked items; Enter only opens and never deletes",
+  "selector.helpConfidence": "1 high confidence | 2 medium | 3 low | 0 all",
+  "selector.filterAll": "all",
+  "selector.filterHigh": "🔴high",
+  "selector.filterMedium": "🟡medium",
+  "selector.filterLow": "⚪low",
+  "selector.status": "Marked: {count} | Size: {size} | Filter: {filter} | Sort: {sort} | Removal: {removal}",
+  "selector.maxAge": " | Unused for {days}+ days",
+  "selector.search": "Search: /{query}{cursor} {hint}",
+  "selector.searchCount": "({n}/{total} items)",
+  "selector.searchEditing": "({n}/{total} items, Enter to finish, Esc to clear)",
+  "selector.path": "Path: {value}",
+  "selector.command": "Command: {value}",
+  "selector.actionDetail": "Action: runs the commands above; no size is measured",
+  "selector.size": "Size: {value}",
+  "selector.times": "Last modified: {modified} | Last accessed: {accessed}",
+  "selector.needsSudo": "⚠️  Needs administrator privileges; it may not be fully cleaned right now",
+  "selector.score": "Confidence score: {score}/100",
+  "selector.kept": "Kept (latest {n} version(s) per product):",
+  "selector.removed": "Removed:",
+  "selector.morePaths": "... {n} more path(s)",
+  "selector.empty": "No matching items",
+  "selector.actionSize": "run",
+  "selector.pathCategory": "path",
+  "selector.measuring": "Measuring sizes in {name}...",
+  "selector.folder": "folder",
+  "selector.file": "file",
+  "selector.commandOnly": "This item is cleaned by a command and cannot be opened",
+  "selector.notFolder": "Not a folder; cannot be opened",
+  "selector.emptyFolder": "The folder is empty",
+  "selector.deleteHint": "Enter only opens items; press d to delete the marked items",
+  "selector.nothingMarked": "No items are marked for deletion",
+  "selector.confirmTitle": "⚠️  Confirm deletion",
+  "selector.aboutToDelete": "About to delete {n} item(s):",
+  "selector.andPaths": " and {n} path(s) in total",
+  "selector.moreItems": "... {n} more",
+  "selector.total": "Total: {size}",
+  "common.irreversible": "⚠️  This cannot be undone!",
+  "selector.movedTo": "Items will be moved to {target}; use mac-clean-ts restore to bring them back",
+  "selector.noSudo": "⚠️  No administrator privileges; deleting system files may fail",
+  "common.confirmPrompt": "Press {key} to confirm, or any other key to cancel",
+  "common.pressAnyKey": "Press any key to continue...",
+  "selector.noItems": "No items found!",
+  "selector.covered": "Already included in a marked parent item",
+  "selector.keepOne": "⚠️  At least one file in each duplicate group must be kept",
+
+  // 外掛、Docker、快取掃描與自動清理
+  "plugin.loadFailed": "Cannot load plugin {spec}: {error}",
+  "plugin.badExport": "Plugin {spec}: the default export must be a provider with name and discover(), or an array of them",
+  "plugin.duplicate": "Plugin {spec}: duplicate provider name \"{name}\"; skipped",
+  "plugin.clash": "Plugin {spec}: provider \"{name}\" has the same name as a built-in task and was skipped",
+  "docker.danglingImage": "dangling image",
+  "docker.unusedImage": "unused image",
+  "docker.stoppedContainer": "stopped container",
+  "docker.unusedVolume": "unused volume",
+  "docker.buildCache": "build cache",
+  "docker.buildCacheName": "BuildKit build cache (all unused)",
+  "docker.unparsable": "docker system df: cannot parse the output",
+  "docker.commandFailed": "docker {command}: {reason}",
+  "cache.scanTitle": "🔍 Scanning developer caches",
+  "cache.progress": "Scanning caches",
+  "provider.discoverFailed": "cannot list cleanable items ({error})",
+  "provider.noPath": "{name} has no path and the provider does not implement clean(); skipped",
+  "provider.warning": "{provider}: {message}",
+  "provider.sizeFailed": "{name}: cannot measure the size ({error})",
+  "auto.enoughSpace": "enough free space, nothing to clean",
+  "auto.targetReached": "target free space reached",
+  "auto.maxPerRun": "per-run limit reached",
+  "auto.noCandidates": "no more eligible items",
+  "auto.cancelled": "interrupted",
+  "auto.taskNotFound": "autoClean.tasks: cleanup task {name} not found",
+  "auto.taskNotSafe": "autoClean.tasks: {name} is not marked autoSafe and cannot be cleaned automatically",
+  "auto.notNeeded": "Free space {free} is not below {min} GB; nothing to clean",
+  "auto.triggered": "Free space {free} is below {min} GB; cleaning up to {target} GB",
+  "auto.dryRun": " (dry run)",
+  "auto.tasks": "Tasks: {tasks}",
+  "auto.none": "(none)",
+  "auto.warning": "Warning: {message}",
+  "auto.planned": "Would delete [{task}] {path} ({size}, unused for {days} days)",
+  "auto.failed": "Failed [{task}] {path}: {error}",
+  "auto.deleted": "Deleted [{task}] {path} ({size})",
+  "auto.finished": "Finished: {reason}; freed {freed}, free space {free}",
+  "auto.finishedDryRun": "Finished: {reason}; would free {freed}, free space {free}",
+
+  // 專案、個人檔案、重複檔案與殘留檔案掃描
+  "projects.scanTitle": "🔍 Scanning project build artifacts",
+  "projects.finding": "Looking for projects...",
+  "projects.found": "Found {count} projects with build artifacts in {roots}",
+  "projects.progress": "Scanning projects",
+  "fileKind.installer": "Installer",
+  "fileKind.archive": "Archive",
+  "fileKind.media": "Media",
+  "fileKind.vm": "VM",
+  "fileKind.other": "Other",
+  "files.scanTitle": "🔍 Scanning large and old files",
+  "files.loadingApps": "Loading installed apps...",
+  "files.criteria": "Listing files larger than {minSize}, or unused for more than {days} days and larger than {floor}",
+  "files.progress": "Scanning folders",
+  "dupes.unreadable": "{path}: cannot read ({error})",
+  "dupes.scanTitle": "🔍 Scanning for duplicate files",
+  "dupes.roots": "Scanning: {roots}",
+  "dupes.bySize": "Comparing file sizes...",
+  "dupes.partial": "Comparing partial contents",
+  "dupes.full": "Comparing full contents",
+  "orphans.appsLoaded": "Loaded {count} installed apps",
+  "evidence.location": "Located in {category} ({path})",
+  "evidence.uuid": "UUID-style name; cannot tell which app it belongs to",
+  "evidence.bundleId": "Name is a bundle ID and no installed app uses it",
+  "evidence.notBundleId": "Name is not a bundle ID; matched by name only",
+  "evidence.sameVendor": "{owner} from the same vendor is still installed",
+  "evidence.sameTeam": "{owner} from the same developer (Team ID) is still installed",
+  "evidence.knownVendor": "Known vendor {vendor}, but none of its apps are installed",
+  "evidence.idle": "Not modified or accessed for {days} days",
+  "evidence.recent": "Modified or accessed in the last 7 days; may still be in use",
+  "evidence.multipleLocations": "Leftovers in {count} locations ({locations})",
+  "orphans.reason": "Found in {category} with no matching installed app",
+  "orphans.reasonVendor": "Found in {category}; {owner} from the same vendor is installed, but no app owns this item directly",
+  "orphans.reasonTeam": "Found in {category}; {owner} from the same developer is installed, but no app owns this item directly",
+  "orphans.scanTitle": "🔍 Scanning for app leftovers",
+  "orphans.scanningLocations": "📁 Scanning {count} locations...",
+  "orphans.progress": "Scanning locations",
+  "orphans.reportTitle": "📊 Scan report",
+  "orphans.found": "Found: {count} leftover items",
+  "orphans.cleanable": "Cleanable: {size}",
+  "orphans.byConfidence": "By confidence:",
+  "orphans.high": "🔴 High: {count} ({size})",
+  "orphans.medium": "🟡 Medium: {count} ({size})",
+  "orphans.low": "⚪ Low: {count} ({size})",
+  "orphans.none": "✓ No leftovers found!",
+  "plist.missingClose": "Malformed plist: missing </{tag}>",
+  "plist.expectedValue": "Malformed plist: expected a value",
+  "plist.expectedKey": "Malformed plist: expected <key> in dict",
+  "plist.unknownTag": "Malformed plist: unknown tag <{tag}>",
+  "plist.tooShort": "Malformed plist: file too short",
+  "plist.offsetsOutOfRange": "Malformed plist: offset table out of range",
+  "plist.refOutOfRange": "Malformed plist: object reference out of range",
+  "plist.tooDeep": "Malformed plist: nested too deeply",
+  "plist.unknownType": "Malformed plist: unknown object type 0x{marker}",
+
+  // 命令列說明
+  "cli.usage": `Usage: mac-clean-ts [command] [options]
+
+Without a command, the interactive menu is shown.
+
+Commands:
+  orphans scan              Scan for app leftovers
+  orphans clean             Delete app leftovers (filtered by --confidence)
+  cache scan                Scan developer caches (limit with --task)
+  cache clean               Clean caches (requires --task or --all)
+  projects scan             Scan workspace projects for build artifacts (node_modules, target, .venv, ...)
+  projects clean            Clean project build artifacts (use --max-age to clean only inactive projects)
+  files scan                List large or long-unused files in Downloads, Desktop and Documents
+  files clean [path...]     Delete installers for apps that are already installed (with paths or
+                            --confidence low, delete every file found in scope)
+  dupes scan [path...]      Find duplicate files by content hash (defaults to duplicateRoots from the config)
+  dupes clean [path...]     Delete duplicate files, keeping one (the oldest) per group
+  clean --all               Clean all caches and app leftovers
+  auto                      Clean auto-safe caches when free space is low, per the config's autoClean policy
+                            (no --yes needed; never deletes app leftovers; results go to the log file)
+  config                    Show the effective configuration merged with built-in defaults
+  quarantine                List restorable items in the quarantine and the Trash
+  restore <id...>           Restore quarantined items (or --all)
+  purge --older-than <age>  Permanently remove quarantined items older than the given age (or --all)
+  stats                     Show total space reclaimed, the fastest-growing caches and recurring leftovers (history is kept for 180 days)
+  help                      Show this help
+
+Options:
+  -t, --task <name,...>     Cleanup tasks, comma-separated (e.g. npm,Gradle)
+  -a, --all                 Select all enabled tasks
+      --max-age <days>      Only items not modified or accessed for this many days (overrides the task's maxAgeDays; skips task commands)
+  -w, --workspace <path,...> Workspaces for the project scan, comma-separated (overrides workspaceRoots)
+      --min-size <MB>       Large-file threshold for files (default {minSize} MB); --max-age sets the unused threshold
+                            For dupes, files smaller than this are ignored (default {dupeMinSize} KB)
+  -j, --jobs <count>        Number of tasks or locations scanned at once (default {jobs})
+      --apparent-size       Measure file content size instead of disk usage
+      --size-timeout <sec>  Time limit for measuring one path (default 120 s; partial results on timeout)
+      --confidence <level>  Minimum confidence for app leftovers and personal files: high | medium | low (default high)
+  -y, --yes                 Delete without asking
+      --quarantine          Move to the quarantine (~/.local/share/mac-clean-ts/quarantine) instead of deleting
+      --trash               Move to the Trash (~/.Trash) instead of deleting
+      --older-than <age>    Age threshold for purge, e.g. 30d, 12h, 2w
+      --since <age>         Period over which stats measures cache growth (default 7d)
+  -n, --dry-run             Dry run: list the deletion steps, commands and expected space freed without changing files
+                            (without a command, opens the interactive menu in dry-run mode)
+      --sudo                Use administrator privileges, asking for a password if needed
+      --no-sudo             Do not use administrator privileges
+                            (by default only already-cached sudo credentials are used; no password prompt)
+      --no-tty              Non-interactive mode: no colors, progress animation or key confirmations
+      --format <format>     Output format: text | json | ndjson (default text)
+      --json                Same as --format json; prints a single JSON document at the end
+      --ndjson              Same as --format ndjson; prints one event per line while scanning
+  -c, --config <path>       Config file path (default ~/.config/mac-clean-ts/config.json)
+      --lang <locale>       Interface language: zh-TW | en (default from LC_ALL, LC_MESSAGES, LANG)
+  -h, --help                Show this help
+
+Exit codes:
+  0  Nothing to clean, or every item was cleaned
+  1  An error occurred (bad arguments, no privileges, or some items failed to delete)
+  2  Cleanable items were found (scan results, a dry-run plan, or the user cancelled)
+  130  The scan was interrupted with Ctrl-C (scan commands still print partial results; clean commands delete nothing)
+
+json / ndjson output carries a schemaVersion field (currently {schemaVersion});
+non-text formats require --yes to delete, and errors always go to stderr.`,
+
+  // 主選單與命令列參數
+  "menu.orphans": "Scan for app leftovers",
+  "menu.orphansDesc": "Find data left behind by uninstalled apps",
+  "menu.cache": "Clean developer caches",
+  "menu.cacheDesc": "Scan and clean caches of developer tools",
+  "menu.full": "Full cleanup",
+  "menu.fullDesc": "Clean caches first, then scan for leftovers",
+  "menu.projects": "Clean project build artifacts",
+  "menu.projectsDesc": "Build artifacts inside projects such as node_modules, target and .venv",
+  "menu.files": "Large and old files",
+  "menu.filesDesc": "Large files, installers and long-unused files in Downloads, Desktop and Documents",
+  "menu.dupes": "Duplicate files",
+  "menu.dupesDesc": "Find duplicate files by content hash, keeping one per group",
+  "menu.quit": "Quit",
+  "menu.quitDesc": "Exit the program",
+  "menu.title": "🧹 macOS Cleaner v3.0",
+  "menu.help": "Use ↑/↓ to choose, Enter to confirm",
+  "menu.admin": "✓ Administrator",
+  "menu.user": "⚠ Standard user",
+  "cli.needsValue": "{flag} requires a value",
+  "cli.badConfidence": "Invalid confidence: {value} (use high, medium or low)",
+  "cli.badFormat": "Invalid output format: {value} (use text, json or ndjson)",
+  "cli.badLang": "Invalid locale: {value} (use {locales})",
+  "cli.badDays": "Invalid number of days: {value}",
+  "cli.badSize": "Invalid size: {value}",
+  "cli.badCount": "Invalid count: {value}",
+  "cli.badSeconds": "Invalid number of seconds: {value}",
+  "cli.unknownOption": "Unknown option: {option}",
+  "cli.sudoNoTty": "Cannot ask for a password in non-interactive mode; run sudo -v first or use --no-sudo",
+  "cli.sudoFailed": "Could not obtain administrator privileges",
+
+  // 選擇項目與掃描結果列表
+  "common.enumSeparator": ", ",
+  "common.listSeparator": ", ",
+  "common.days": "{n} d",
+  "cli.taskNotFound": "Cleanup task not found: {name}\nAvailable tasks: {tasks}",
+  "cache.keptDetail": "{description} ({count} old versions, keeping {kept})",
+  "cache.pathsDetail": "{description} ({count} paths)",
+  "cache.actionCategory": "Action",
+  "provider.removeWith": "removed with {how}",
+  "provider.removeWithCategory": "{category}, removed with {how}",
+  "projects.detail": "{kinds} · last activity from {source}",
+  "projects.sourceGit": "git history",
+  "projects.sourceMtime": "file modification times",
+  "projects.summary": "Found {count} projects; {size} can be freed",
+  "files.installedDetail": "{app} is installed; this installer can be deleted",
+  "files.skippedUnsure": "Skipped {count} files that may still be needed (only installers for apps that are already installed are cleaned by default); name the paths or pass --confidence low",
+  "files.installed": "✓ {app} installed",
+  "files.summary": "Found {count} files, {size} in total",
+  "dupes.group": "Group {n}",
+  "dupes.keeperDetail": "Suggested to keep (the oldest); {count} more with identical content",
+  "dupes.copyDetail": "Same content as {keeper}",
+  "dupes.summary": "Found {count} groups of duplicates; {size} can be freed",
+  "cache.summary": "Found {count} cleanable items, {size} in total",
+  "cache.paths": "{count} paths",
+  "cache.resources": ", {count} resources",
+  "cache.commandOnly": "Runs commands only: {commands}",
+
+  // 設定、隔離區、清理確認與主流程
+  "config.file": "Config file: {file}",
+  "config.fileUnused": "(none; default location {path})",
+  "config.tasks": "Cleanup tasks ({enabled}/{total} enabled):",
+  "config.keepLatest": "keeps the newest {n}",
+  "config.plugin": "plugin",
+  "config.autoSafe": "auto-safe",
+  "config.needsSudo": "needs administrator",
+  "config.notes": " ({notes})",
+  "config.locations": "Leftover locations:",
+  "config.bundleMappings": "Bundle ID mappings: {count}",
+  "config.systemPrefixes": "System prefixes: {list}",
+  "config.appRoots": "App locations: {list}",
+  "config.workspaces": "Project workspaces: {list}",
+  "config.personalFiles": "Large and old files: {roots} (> {minSize} MB or unused for {days} days)",
+  "config.duplicates": "Duplicate files: {list}",
+  "config.autoClean": "Auto clean: when free space is below {min} GB, clean up to {target} GB, at most {max} GB per run, only items unused for more than {days} days",
+  "config.autoTasks": "Tasks: {tasks}",
+  "config.autoAllTasks": "all tasks marked auto-safe",
+  "config.autoLog": "Log: {file}",
+  "config.exclusions": "Exclusion rules ({count}):",
+  "quarantine.empty": "The quarantine is empty",
+  "quarantine.summary": "{count} items in the quarantine, {size}",
+  "quarantine.noMatch": "No matching quarantined items",
+  "quarantine.restored": "Restored {count} items, {size}",
+  "quarantine.purged": "Permanently removed {count} items, {size}",
+  "clean.nothing": "✓ Nothing to clean",
+  "clean.needSudo": "⚠️  These items need administrator privileges and may not be fully cleaned without --sudo: {names}",
+  "clean.aboutToDelete": "About to delete {count} items, {size} in total",
+  "clean.aboutToMove": "About to move {count} items to {target}, {size} in total",
+  "clean.needsYes": "Deleting in non-interactive mode requires --yes",
+  "clean.movedTo": "Items will be moved to {target}; use restore to bring them back",
+  "clean.cancelled": "Cancelled",
+  "clean.interrupted": "Scan interrupted; nothing was deleted",
+  "cache.none": "✓ No caches to clean!",
+  "cli.cacheCleanNeedsTask": "cache clean requires --task or --all",
+  "cli.cleanNeedsAll": "clean requires --all",
+  "projects.none": "✓ No project build artifacts found!",
+  "files.none": "✓ No large or long-unused files found!",
+  "dupes.none": "✓ No duplicate files found!",
+  "cli.restoreNeedsId": "restore requires ids or --all (run mac-clean-ts quarantine to list them)",
+  "cli.notInQuarantine": "Not found in the quarantine: {ids}",
+  "cli.autoDeleteOnly": "auto can only delete: moving to the quarantine or the Trash frees no space",
+  "cli.purgeNeedsAge": "purge requires --older-than or --all",
+  "cli.unknownCommand": "Unknown command: {command}\nRun mac-clean-ts --help for usage",
+  "cli.error": "Error: {message}",
+  "cli.warning": "Warning: {message}",
+  "cli.menuNeedsTty": "The interactive menu needs a terminal; specify a command (run mac-clean-ts --help for usage)",
+  "menu.enterCleanup": "Press {key} to start cleaning, or any other key to return to the menu",
+  "menu.enterCleanupSkip": "Press {key} to start cleaning, or any other key to skip",
+  "menu.orphansTitle": "🗑️  App leftover cleanup",
+  "menu.cacheTitle": "🧹 Developer cache cleanup",
+  "menu.projectsTitle": "📦 Project build artifact cleanup",
+  "menu.filesTitle": "📁 Large and old file cleanup",
+  "menu.dupesTitle": "🧬 Duplicate file cleanup",
+  "menu.cacheFound": "Found {count} cleanable items, {size} in total",
+  "menu.cacheItemsFound": "Found {count} cache items, {size} in total",
+  "menu.projectsFound": "Found {count} projects, {size} in total",
+  "menu.filesFound": "Found {count} files, {size} in total",
+  "menu.installersHint": "{count} of them are installers for apps already installed (press 1 to filter)",
+  "menu.dupesDefaultRoots": "Default folders: {roots}",
+  "menu.dupesAskRoots": "Folders to scan (comma-separated; press Enter for the defaults): ",
+  "menu.dupesFound": "Found {count} groups of duplicates; {size} can be freed",
+  "menu.dupesKeeperHint": "★ marks the suggested file to keep; at least one file per group is always kept",
+  "menu.bye": "Bye!",
+
+  // 執行紀錄與統計
+  "history.unreadable": "Cannot read the run history {file}: {error}",
+  "history.writeFailed": "Cannot write the run history {file}: {error}",
+  "stats.empty": "No run history yet ({file}); it starts with the next scan or cleanup",
+  "stats.title": "📈 Cleanup statistics",
+  "stats.range": "Recorded: {first} to {last}; {scans} scans, {cleanups} cleanups",
+  "stats.reclaimed": "Total reclaimed: {size}",
+  "stats.moved": "plus {size} moved to the quarantine or the Trash",
+  "stats.reclaimedBy": "Most reclaimed:",
+  "stats.growth": "Fastest-growing caches (since {since}):",
+  "stats.growthLine": "now {size}, compared with {since}",
+  "stats.noGrowth": "No cache growth in this period, or fewer than two cache scans",
+  "stats.orphans": "Last leftover scan ({at}): {high} high, {medium} medium, {low} low, {size} in total",
+  "stats.recurring": "Leftovers that came back after deletion:",
+  "stats.returns": "{n}×",
+  "stats.noRecurring": "No leftovers came back after deletion",
+};
+
+const MESSAGES: Record<Locale, Partial<Record<MessageKey, string>>> = { "zh-TW": ZH_TW, en: EN };
+
+// LANG / LC_ALL 之類的值（zh_TW.UTF-8、en_US）對應到支援的語系；C 與 POSIX 視為未指定
+function parseLocale(value: string | undefined): Locale | null {
+  if (!value || value === "C" || value === "POSIX" || value.startsWith("C.")) return null;
+  const lang = value.toLowerCase().replace("_", "-");
+  if (lang.startsWith("zh")) return "zh-TW";
+  return "en";
+}
+
+// --lang 優先，其次依序為 LC_ALL、LC_MESSAGES、LANG；都未指定時使用繁體中文。
+// 載入時就決定語系，內建任務說明與選單才會以正確的語言建立
+function detectLocale(argv: string[], env: NodeJS.ProcessEnv): Locale {
+  const idx = argv.findIndex(a => a === "--lang" || a.startsWith("--lang="));
+  if (idx >= 0) {
+    const value = argv[idx].includes("=") ? argv[idx].slice("--lang=".length) : argv[idx + 1];
+    if (isLocale(value)) return value;
+  }
+  for (const name of ["LC_ALL", "LC_MESSAGES", "LANG"]) {
+    const locale = parseLocale(env[name]);
+    if (locale) return locale;
+  }
+  return "zh-TW";
+}
+
+function isLocale(value: string | undefined): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+const LOCALE: Locale = detectLocale(process.argv.slice(2), process.env);
+
+// 目前語系缺少的訊息改用其他語系，仍找不到時回傳 key 本身
+function t(key: MessageKey, params?: MessageParams): string {
+  const text = MESSAGES[LOCALE][key] ?? LOCALES.map(l => MESSAGES[l][key]).find(m => m !== undefined) ?? key;
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (m, name: string) => name in params ? String(params[name]) : m);
+}
+
+// 翻譯後的文字連同訊息 key 與參數，結構化輸出可不依賴語系判讀
+interface Message {
+  key: MessageKey;
+  params?: MessageParams;
+  text: string;
+  // 包裝其他錯誤時，原錯誤的訊息 key 與參數
+  cause?: { key: MessageKey; params?: MessageParams };
+}
+
+function translated(key: MessageKey, params?: MessageParams): Message {
+  return params ? { key, params, text: t(key, params) } : { key, text: t(key) };
+}
+
+// 以訊息 key 建立的錯誤，結構化輸出的 error 欄位會附上 key 與參數
+class MessageError extends Error {
+  readonly key: MessageKey;
+  readonly params?: MessageParams;
+
+  constructor(key: MessageKey, params?: MessageParams) {
+    super(t(key, params));
+    this.key = key;
+    this.params = params;
+  }
+}
+
 // ============================================================================
 // 工具函數
 // ============================================================================
@@ -64,20 +1186,36 @@ function formatSize(bytes: number): string {
   return `${size.toFixed(2)} ${units[i]}`;
 }
 
+function formatDate(ms: number): string {
+  if (!ms) return t("date.unknown");
+  const d = new Date(ms);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const days = Math.floor((Date.now() - ms) / 86400e3);
+  const ago = days <= 0 ? t("date.today")
+    : days < 60 ? t("date.daysAgo", { n: days })
+    : days < 730 ? t("date.monthsAgo", { n: Math.floor(days / 30) })
+    : t("date.yearsAgo", { n: Math.floor(days / 365) });
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())} (${ago})`;
+}
+
 function expandPath(p: string): string {
   return p.startsWith("~/") ? join(homedir(), p.slice(2)) : p;
 }
 
+// 終端機的顯示寬度：中日韓文字與全形符號佔兩欄
+function displayWidth(text: string): number {
+  return [...text].reduce((w, c) => w + (/[\u1100-\u115f\u2e80-\ua4cf\uac00-\ud7a3\uf900-\ufaff\uff00-\uff60\uffe0-\uffe6]/.test(c) ? 2 : 1), 0);
+}
+
+function padDisplay(text: string, width: number, side: "start" | "end" = "end"): string {
+  const pad = " ".repeat(Math.max(0, width - displayWidth(text)));
+  return side === "start" ? pad + text : text + pad;
+}
+
 async function pathExists(p: string): Promise<boolean> {
   try { await access(p); return true; } catch { return false; }
 }
 
-function getSize(path: string): number {
-  try {
-    const r = execSync(`du -sk "${path}" 2>/dev/null`, { encoding: "utf-8" });
-    return parseInt(r.split("\t")[0], 10) * 1024;
-  } catch { return 0; }
-}
 
 function checkSudo(): boolean {
   try {
@@ -86,9 +1224,34 @@ function checkSudo(): boolean {
   } catch { return false; }
 }
 
+// 以一般（非 raw）模式讀取一行輸入
+function askLine(prompt: string): Promise<string> {
+  return new Promise(resolve => {
+    process.stdout.write(prompt);
+    process.stdin.setRawMode(false);
+    process.stdin.resume();
+    process.stdin.once("data", data => {
+      process.stdin.pause();
+      resolve(data.toString().trim());
+    });
+  });
+}
+
+function askYes(): Promise<boolean> {
+  return new Promise(resolve => {
+    process.stdin.setRawMode(true);
+    process.stdin.resume();
+    process.stdin.once("data", key => {
+      process.stdin.setRawMode(false);
+      process.stdin.pause();
+      resolve(key.toString().toLowerCase() === "y");
+    });
+  });
+}
+
 async function requestSudo(): Promise<boolean> {
-  console.log(`\n${colors.yellow}⚠️  需要管理員權限以清理系統檔案${colors.reset}`);
-  console.log(`${colors.dim}按 y 輸入密碼取得權限，其他鍵以一般權限執行${colors.reset}\n`);
+  console.log(`\n${colors.yellow}${t("sudo.required")}${colors.reset}`);
+  console.log(`${colors.dim}${t("sudo.prompt")}${colors.reset}\n`);
 
   return new Promise(resolve => {
     process.stdin.setRawMode(true);
@@ -107,60 +1270,240 @@ async function requestSudo(): Promise<boolean> {
   });
 }
 
+// ============================================================================
+// Glob 比對與展開
+// ============================================================================
+
+// 支援的語法：
+//   *  ?           單一路徑層內的任意字元 / 單一字元
+//   **             任意層數的目錄（含零層），只能單獨成為一層，例如 ~/a/**/cache
+//   [abc] [a-z]    字元類別，[!abc] 或 [^abc] 為排除
+//   {a,b}          多選一，可巢狀
+//   \x             跳脫特殊字元
+// 與 shell 不同，萬用字元也會比對到以 . 開頭的隱藏檔案（快取目錄中的隱藏檔同樣需要清理）；
+// 比對不分大小寫，與 macOS 預設檔案系統一致。
+// 展開時不會經由萬用字元進入符號連結的目錄：符號連結本身可以被比對並回傳（刪除的是連結而非目標），
+// 但 * 與 ** 不會沿著它往下走，避免跳出預期範圍或陷入循環；字面路徑層則照常跟隨符號連結。
+
+function hasGlobMagic(segment: string): boolean {
+  return /[*?[{]/.test(segment.replace(/\\./g, ""));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function splitTopLevel(text: string, sep: string): string[] {
+  const parts: string[] = [];
+  let depth = 0, last = 0;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === "\\") { i++; continue; }
+    if (c === "{") depth++;
+    else if (c === "}") depth--;
+    else if (c === sep && depth === 0) { parts.push(text.slice(last, i)); last = i + 1; }
+  }
+  parts.push(text.slice(last));
+  return parts;
+}
+
+// {a,b} 展開為多個樣式；不含逗號的 {x} 視為字面字元
+export function expandBraces(pattern: string): string[] {
+  let depth = 0, start = -1;
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === "\\") { i++; continue; }
+    if (c === "{") {
+      if (depth++ === 0) start = i;
+    } else if (c === "}" && depth > 0 && --depth === 0) {
+      const options = splitTopLevel(pattern.slice(start + 1, i), ",");
+      if (options.length < 2) continue;
+      const prefix = pattern.slice(0, start), suffix = pattern.slice(i + 1);
+      return options.flatMap(o => expandBraces(prefix + o + suffix));
+    }
+  }
+  return [pattern];
+}
+
+function segmentToRegExpSource(segment: string): string {
+  let re = "";
+  for (let i = 0; i < segment.length; i++) {
+    const c = segment[i];
+    if (c === "\\" && i + 1 < segment.length) {
+      re += escapeRegExp(segment[++i]);
+    } else if (c === "*") {
+      re += "[^/]*";
+    } else if (c === "?") {
+      re += "[^/]";
+    } else if (c === "[") {
+      const negate = segment[i + 1] === "!" || segment[i + 1] === "^";
+      const bodyStart = i + (negate ? 2 : 1);
+      // 緊接在 [ 或 [! 之後的 ] 視為類別中的字面字元
+      const end = segment.indexOf("]", bodyStart + 1);
+      if (end < 0) { re += "\\["; continue; }
+      const body = segment.slice(bodyStart, end).replace(/[\]\\^]/g, "\\$&");
+      re += `[${negate ? "^" : ""}${body}]`;
+      i = end;
+    } else {
+      re += escapeRegExp(c);
+    }
+  }
+  return re;
+}
+
+function unescapeGlob(segment: string): string {
+  return segment.replace(/\\(.)/g, "$1");
+}
+
+// 將完整路徑 glob 轉為正規表示式（含 ** 與 {a,b}）
+export function globToRegExp(pattern: string, flags = "i"): RegExp {
+  const alternatives = expandBraces(pattern).map(alt => {
+    let re = "";
+    alt.split("/").forEach((seg, i) => {
+      if (seg === "**") re += i === 0 ? "(?:[^/]*(?:/|$))*" : "(?:/.*)?";
+      else re += (i === 0 || re.endsWith("(?:[^/]*(?:/|$))*") ? "" : "/") + segmentToRegExpSource(seg);
+    });
+    return re;
+  });
+  return new RegExp(`^(?:${alternatives.join("|")})$`, flags);
+}
+
+async function listDir(dir: string) {
+  try { return await readdir(dir, { withFileTypes: true }); } catch { return []; }
+}
+
+async function walkGlob(dir: string, segments: string[], idx: number, out: Set<string>): Promise<void> {
+  if (idx === segments.length) {
+    out.add(dir);
+    return;
+  }
+
+  const seg = segments[idx];
+  const isLast = idx === segments.length - 1;
+
+  if (seg === "**") {
+    await walkGlob(dir, segments, idx + 1, out);
+    for (const e of await listDir(dir)) {
+      // Dirent 的 isDirectory() 對符號連結回傳 false，因此不會跟隨連結
+      if (e.isDirectory()) await walkGlob(join(dir, e.name), segments, idx, out);
+    }
+    return;
+  }
+
+  if (!hasGlobMagic(seg)) {
+    const next = join(dir, unescapeGlob(seg));
+    if (isLast) {
+      try { await lstat(next); out.add(next); } catch {}
+    } else if (await pathExists(next)) {
+      await walkGlob(next, segments, idx + 1, out);
+    }
+    return;
+  }
+
+  const re = new RegExp(`^${segmentToRegExpSource(seg)}$`, "i");
+  for (const e of await listDir(dir)) {
+    if (!re.test(e.name)) continue;
+    const full = join(dir, e.name);
+    if (isLast) out.add(full);
+    else if (e.isDirectory()) await walkGlob(full, segments, idx + 1, out);
+  }
+}
+
+// 移除已被其他結果包含的子路徑，避免同一份資料重複計算大小或重複刪除
+function collapseNested(paths: string[]): string[] {
+  const kept = new Set<string>();
+  for (const p of [...new Set(paths)].sort((a, b) => a.length - b.length)) {
+    const parts = p.split("/");
+    let covered = false;
+    for (let i = 1; i < parts.length && !covered; i++) covered = kept.has(parts.slice(0, i).join("/") || "/");
+    if (!covered) kept.add(p);
+  }
+  return [...new Set(paths)].filter(p => kept.has(p));
+}
+
+export async function expandGlobPattern(pattern: string): Promise<string[]> {
+  const results = new Set<string>();
+  for (const alt of expandBraces(expandPath(pattern))) {
+    const root = alt.startsWith("/") ? "/" : process.cwd();
+    await walkGlob(root, alt.split("/").filter(Boolean), 0, results);
+  }
+  return collapseNested([...results]);
+}
+
+// 樣式中第一個含萬用字元的層級之前的資料夾，即此樣式可能涵蓋的範圍
+function globRoots(pattern: string): string[] {
+  return expandBraces(expandPath(pattern)).map(alt => {
+    const segments = alt.split("/");
+    const magic = segments.findIndex(hasGlobMagic);
+    return (magic < 0 ? segments : segments.slice(0, magic)).map(unescapeGlob).join("/") || "/";
+  });
+}
+
 // ============================================================================
 // 清理任務配置
 // ============================================================================
 
-const CLEANUP_TASKS: CleanupTask[] = [
+// 內建任務的說明以訊息 key 指定，依目前語系轉換
+type BuiltinTask = Omit<CleanupTask, "description"> & { descriptionKey: MessageKey };
+
+const BUILTIN_TASKS: BuiltinTask[] = [
   // 系統
-  { name: "System Cache", description: "系統快取", paths: ["~/Library/Caches/*"], enabled: true },
-  { name: "System Logs", description: "系統日誌", paths: ["~/Library/Logs/*", "/Library/Logs/*"], enabled: true },
-  { name: "Diagnostic Reports", description: "診斷報告", paths: ["~/Library/Logs/DiagnosticReports/*"], enabled: true },
+  { name: "System Cache", descriptionKey: "task.systemCache", paths: ["~/Library/Caches/*"], enabled: true },
+  { name: "System Logs", descriptionKey: "task.systemLogs", paths: ["~/Library/Logs/*", "/Library/Logs/*"], enabled: true },
+  { name: "Diagnostic Reports", descriptionKey: "task.diagnosticReports", paths: ["~/Library/Logs/DiagnosticReports/*"], enabled: true },
 
   // 開發工具
-  { name: "JetBrains", description: "JetBrains IDE 快取", paths: ["~/Library/Caches/JetBrains/*", "~/Library/Logs/JetBrains/*"], enabled: true },
-  { name: "VSCode", description: "VSCode 快取", paths: ["~/Library/Application Support/Code/Cache/*", "~/Library/Application Support/Code/CachedData/*", "~/Library/Application Support/Code/logs/*"], enabled: true },
-  { name: "Xcode", description: "Xcode 快取", paths: ["~/Library/Developer/Xcode/DerivedData/*", "~/Library/Developer/Xcode/Archives/*", "~/Library/Developer/Xcode/iOS Device Logs/*"], enabled: true },
-  { name: "iOS Simulators", description: "iOS 模擬器", paths: ["~/Library/Developer/CoreSimulator/Caches/*"], commands: ["xcrun simctl delete unavailable 2>/dev/null"], enabled: true },
+  { name: "JetBrains", descriptionKey: "task.jetbrains", paths: ["~/Library/Caches/JetBrains/*", "~/Library/Logs/JetBrains/*"], keepLatest: 1, enabled: true },
+  { name: "VSCode", descriptionKey: "task.vscode", paths: ["~/Library/Application Support/Code/Cache/*", "~/Library/Application Support/Code/CachedData/*", "~/Library/Application Support/Code/logs/*"], enabled: true },
+  { name: "Xcode DerivedData", descriptionKey: "task.xcodeDerivedData", paths: ["~/Library/Developer/Xcode/DerivedData/*"], autoSafe: true, enabled: true, splitFrom: "Xcode" },
+  { name: "Xcode", descriptionKey: "task.xcode", paths: ["~/Library/Developer/Xcode/Archives/*", "~/Library/Developer/Xcode/iOS Device Logs/*"], enabled: true },
+  { name: "Xcode DeviceSupport", descriptionKey: "task.xcodeDeviceSupport", paths: ["~/Library/Developer/Xcode/iOS DeviceSupport/*", "~/Library/Developer/Xcode/watchOS DeviceSupport/*"], keepLatest: 2, enabled: true },
+  { name: "iOS Simulators", descriptionKey: "task.iosSimulators", paths: ["~/Library/Developer/CoreSimulator/Caches/*"], commands: ["xcrun simctl delete unavailable 2>/dev/null"], enabled: true },
 
   // 瀏覽器
-  { name: "Chrome", description: "Chrome 快取", paths: ["~/Library/Caches/Google/Chrome/*", "~/Library/Application Support/Google/Chrome/Default/Service Worker/*"], enabled: true },
-  { name: "Safari", description: "Safari 快取", paths: ["~/Library/Caches/com.apple.Safari/*"], enabled: true },
-  { name: "Firefox", description: "Firefox 快取", paths: ["~/Library/Caches/Firefox/*"], enabled: true },
+  { name: "Chrome", descriptionKey: "task.chrome", paths: ["~/Library/Caches/Google/Chrome/*", "~/Library/Application Support/Google/Chrome/Default/Service Worker/*"], enabled: true },
+  { name: "Safari", descriptionKey: "task.safari", paths: ["~/Library/Caches/com.apple.Safari/*"], enabled: true },
+  { name: "Firefox", descriptionKey: "task.firefox", paths: ["~/Library/Caches/Firefox/*"], enabled: true },
 
   // Adobe
-  { name: "Adobe", description: "Adobe 快取", paths: ["~/Library/Caches/Adobe/*", "~/Library/Application Support/Adobe/Common/Media Cache Files/*"], enabled: true },
+  { name: "Adobe", descriptionKey: "task.adobe", paths: ["~/Library/Caches/Adobe/*", "~/Library/Application Support/Adobe/Common/Media Cache Files/*"], enabled: true },
 
   // 套件管理
-  { name: "npm", description: "npm 快取", paths: ["~/.npm/_cacache/*"], commands: ["npm cache clean --force 2>/dev/null"], enabled: true },
-  { name: "yarn", description: "yarn 快取", paths: ["~/Library/Caches/Yarn/*"], enabled: true },
-  { name: "pnpm", description: "pnpm 快取", paths: ["~/Library/pnpm/store/*"], enabled: true },
-  { name: "Bun", description: "Bun 快取", paths: ["~/.bun/install/cache/*"], enabled: true },
-  { name: "Homebrew", description: "Homebrew 快取", paths: ["~/Library/Caches/Homebrew/*"], commands: ["brew cleanup -s 2>/dev/null"], enabled: true },
-  { name: "CocoaPods", description: "CocoaPods 快取", paths: ["~/Library/Caches/CocoaPods/*"], enabled: true },
-  { name: "Gradle", description: "Gradle 快取", paths: ["~/.gradle/caches/*"], enabled: true },
-  { name: "Maven", description: "Maven 快取", paths: ["~/.m2/repository/*"], enabled: true },
+  { name: "npm", descriptionKey: "task.npm", paths: ["~/.npm/_cacache/*"], commands: ["npm cache clean --force 2>/dev/null"], autoSafe: true, enabled: true },
+  { name: "yarn", descriptionKey: "task.yarn", paths: ["~/Library/Caches/Yarn/*"], autoSafe: true, enabled: true },
+  { name: "pnpm", descriptionKey: "task.pnpm", paths: ["~/Library/pnpm/store/*"], enabled: true },
+  { name: "Bun", descriptionKey: "task.bun", paths: ["~/.bun/install/cache/*"], autoSafe: true, enabled: true },
+  { name: "Homebrew", descriptionKey: "task.homebrew", paths: ["~/Library/Caches/Homebrew/*"], commands: ["brew cleanup -s 2>/dev/null"], autoSafe: true, enabled: true },
+  { name: "CocoaPods", descriptionKey: "task.cocoapods", paths: ["~/Library/Caches/CocoaPods/*"], autoSafe: true, enabled: true },
+  { name: "Gradle", descriptionKey: "task.gradle", paths: ["~/.gradle/caches/*"], enabled: true },
+  { name: "Gradle Wrapper", descriptionKey: "task.gradleWrapper", paths: ["~/.gradle/wrapper/dists/*"], keepLatest: 2, enabled: true },
+  { name: "Maven", descriptionKey: "task.maven", paths: ["~/.m2/repository/*"], enabled: true },
 
   // 語言環境
-  { name: "Go", description: "Go 快取", paths: ["~/go/pkg/mod/cache/*"], commands: ["go clean -cache 2>/dev/null"], enabled: true },
-  { name: "Rust/Cargo", description: "Rust 快取", paths: ["~/.cargo/registry/cache/*", "~/.cargo/git/db/*"], enabled: true },
-  { name: "Python/pip", description: "pip 快取", paths: ["~/Library/Caches/pip/*", "~/.cache/pip/*"], enabled: true },
-  { name: "Ruby/gem", description: "gem 快取", paths: ["~/.gem/ruby/*/cache/*"], enabled: true },
-  { name: "PHP/Composer", description: "Composer 快取", paths: ["~/.composer/cache/*"], enabled: true },
-  { name: "Deno", description: "Deno 快取", paths: ["~/Library/Caches/deno/*", "~/.deno/gen/*"], enabled: true },
-  { name: "Flutter", description: "Flutter 快取", paths: ["~/.pub-cache/*", "~/Library/Developer/Flutter/*"], enabled: true },
+  // 舊版本可能仍被專案指定使用，預設停用，需以 --task 或設定檔啟用
+  { name: "Node (nvm/fnm)", descriptionKey: "task.node", paths: ["~/.nvm/versions/node/*", "~/Library/Application Support/fnm/node-versions/*", "~/.local/share/fnm/node-versions/*"], keepLatest: 2, enabled: false },
+  { name: "rustup", descriptionKey: "task.rustup", paths: ["~/.rustup/toolchains/*"], keepLatest: 1, enabled: false },
+  { name: "Go", descriptionKey: "task.go", paths: ["~/go/pkg/mod/cache/*"], commands: ["go clean -cache 2>/dev/null"], enabled: true },
+  { name: "Rust/Cargo", descriptionKey: "task.cargo", paths: ["~/.cargo/registry/cache/*", "~/.cargo/git/db/*"], enabled: true },
+  { name: "Python/pip", descriptionKey: "task.pip", paths: ["~/Library/Caches/pip/*", "~/.cache/pip/*"], autoSafe: true, enabled: true },
+  { name: "Ruby/gem", descriptionKey: "task.gem", paths: ["~/.gem/ruby/*/cache/*"], enabled: true },
+  { name: "PHP/Composer", descriptionKey: "task.composer", paths: ["~/.composer/cache/*"], enabled: true },
+  { name: "Deno", descriptionKey: "task.deno", paths: ["~/Library/Caches/deno/*", "~/.deno/gen/*"], enabled: true },
+  { name: "Flutter", descriptionKey: "task.flutter", paths: ["~/.pub-cache/*", "~/Library/Developer/Flutter/*"], enabled: true },
 
   // 容器與虛擬化
-  { name: "Docker", description: "Docker 快取", paths: ["~/Library/Containers/com.docker.docker/Data/vms/*"], enabled: true },
+  { name: "Docker", descriptionKey: "task.docker", paths: [], provider: "docker", enabled: true },
 
   // 遊戲
-  { name: "Steam", description: "Steam 快取", paths: ["~/Library/Application Support/Steam/appcache/*"], enabled: true },
-  { name: "Minecraft", description: "Minecraft 日誌", paths: ["~/Library/Application Support/minecraft/logs/*"], enabled: true },
+  { name: "Steam", descriptionKey: "task.steam", paths: ["~/Library/Application Support/Steam/appcache/*"], enabled: true },
+  { name: "Minecraft", descriptionKey: "task.minecraft", paths: ["~/Library/Application Support/minecraft/logs/*"], enabled: true },
 
   // DNS
-  { name: "DNS Cache", description: "DNS 快取", paths: [], commands: ["sudo dscacheutil -flushcache 2>/dev/null", "sudo killall -HUP mDNSResponder 2>/dev/null"], enabled: true },
+  { name: "DNS Cache", descriptionKey: "task.dns", paths: [], commands: ["sudo dscacheutil -flushcache 2>/dev/null", "sudo killall -HUP mDNSResponder 2>/dev/null"], enabled: true },
 ];
 
+const CLEANUP_TASKS: CleanupTask[] = BUILTIN_TASKS.map(task => ({ ...task, description: t(task.descriptionKey) }));
+
 // ============================================================================
 // 已知 Bundle ID 對應
 // ============================================================================
@@ -205,6 +1548,17 @@ const RESIDUAL_LOCATIONS: ResidualLocation[] = [
   { path: "/Library/Application Support", category: "System App", confidenceBase: "high" },
 ];
 
+// ============================================================================
+// 應用程式安裝位置
+// ============================================================================
+
+// 在這些目錄下讀取 .app/Contents/Info.plist 建立已安裝應用程式索引
+const APP_ROOTS = [
+  "/Applications",
+  "/System/Applications",
+  "~/Applications",
+];
+
 // ============================================================================
 // 系統應用程式白名單
 // ============================================================================
@@ -215,329 +1569,4038 @@ const SYSTEM_PREFIXES = [
 ];
 
 // ============================================================================
-// 進度顯示
+// 使用者設定
 // ============================================================================
 
-class ProgressDisplay {
-  private spinner = ["⠋", "⠙", "⠹", "⠸", "⠼", "⠴", "⠦", "⠧", "⠇", "⠏"];
-  private index = 0;
-  private intervalId: NodeJS.Timeout | null = null;
-  private message = "";
+// 設定檔以 JSON 撰寫，合併在內建預設值之上：
+// {
+//   "tasks": [
+//     { "name": "Docker", "enabled": false },
+//     { "name": "Xcode", "maxAgeDays": 14 },
+//     { "name": "Node (nvm/fnm)", "enabled": true, "keepLatest": 3 },
+//     { "name": "MySDK", "description": "MySDK 快取", "paths": ["~/.mysdk/cache/*"], "commands": ["mysdk gc"] }
+//   ],
+//   "residualLocations": {
+//     "add": [{ "path": "~/Library/Logs", "category": "Logs", "confidenceBase": "low" }],
+//     "remove": ["~/Library/WebKit"]
+//   },
+//   "bundleMappings": { "com.mycorp": "MyCorp" },
+//   "systemPrefixes": { "add": ["com.mycorp."], "remove": [] },
+//   "appRoots": ["/Applications", "~/Applications", "/Volumes/External/Applications"],
+//   "workspaceRoots": ["~/code", "~/work"],
+//   "personalFiles": { "roots": ["~/Downloads", "~/Desktop"], "minSizeMB": 200, "olderThanDays": 90 },
+//   "duplicateRoots": ["~/Documents", "~/Design"],
+//   "plugins": ["mac-clean-provider-mysdk", "./plugins/internal-simulator.ts"],
+//   "autoClean": { "minFreeGB": 20, "targetFreeGB": 40, "tasks": ["Bun", "yarn", "Xcode DerivedData"], "minAgeDays": 7, "maxGBPerRun": 30 },
+//   "exclusions": [{ "path": "~/Library/Application Support/LicenseData", "note": "授權資料" }]
+// }
+// tasks 中與內建任務同名者只覆寫提供的欄位；residualLocations.add 與既有路徑相同時取代之；
+// appRoots、workspaceRoots、duplicateRoots 指定時完全取代內建的位置。
+// tasks 中與外掛 provider 同名者只套用 enabled、maxAgeDays 與 autoSafe。
+// Xcode DerivedData 原屬 Xcode 任務；只覆寫 Xcode 時，其 enabled、maxAgeDays、keepLatest 與 autoSafe 也套用於它。
+
+interface UserConfig {
+  tasks?: (Partial<CleanupTask> & { name: string })[];
+  residualLocations?: { add?: ResidualLocation[]; remove?: string[] };
+  bundleMappings?: Record<string, string>;
+  systemPrefixes?: { add?: string[]; remove?: string[] };
+  appRoots?: string[];
+  workspaceRoots?: string[];
+  personalFiles?: Partial<PersonalFileSettings>;
+  duplicateRoots?: string[];
+  plugins?: string[];
+  autoClean?: Partial<AutoCleanPolicy>;
+  exclusions?: ExclusionRule[];
+}
 
-  start(msg: string): void {
-    this.message = msg;
-    this.index = 0;
-    this.intervalId = setInterval(() => {
-      process.stdout.write(`\r${colors.cyan}${this.spinner[this.index]}${colors.reset} ${this.message}`);
-      this.index = (this.index + 1) % this.spinner.length;
-    }, 80);
+interface PersonalFileSettings {
+  roots: string[];
+  minSizeMB: number;
+  olderThanDays: number;
+}
+
+interface AppConfig {
+  file: string | null;
+  tasks: CleanupTask[];
+  residualLocations: ResidualLocation[];
+  bundleMappings: Record<string, string>;
+  systemPrefixes: string[];
+  appRoots: string[];
+  workspaceRoots: string[];
+  personalFiles: PersonalFileSettings;
+  duplicateRoots: string[];
+  plugins: string[];
+  // 內建任務與外掛轉成的 provider，掃描快取時使用
+  providers: CleanupProvider[];
+  autoClean: AutoCleanPolicy;
+  exclusionRules: ExclusionRule[];
+  exclusions: ExclusionRules;
+  // 不影響執行的問題，例如載入失敗而略過的外掛
+  warnings: Message[];
+}
+
+function defaultConfigPath(): string {
+  return join(homedir(), ".config", "mac-clean-ts", "config.json");
+}
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function isStringArray(v: unknown): v is string[] {
+  return Array.isArray(v) && v.every(x => typeof x === "string");
+}
+
+function checkKeys(obj: Record<string, unknown>, allowed: string[], at: string, errors: string[]): void {
+  for (const key of Object.keys(obj)) {
+    if (!allowed.includes(key)) errors.push(`${at}: ${t("config.unknownKey", { key, allowed: allowed.join(", ") })}`);
   }
+}
 
-  update(msg: string): void {
-    this.message = msg;
+// pluginNames 為 null 表示外掛未載入（或有外掛載入失敗），無法判斷未知的任務名稱是否屬於外掛
+export function validateUserConfig(raw: unknown, pluginNames: string[] | null = []): string[] {
+  const errors: string[] = [];
+  if (!isPlainObject(raw)) return [t("config.rootNotObject")];
+  checkKeys(raw, ["$schema", "tasks", "residualLocations", "bundleMappings", "systemPrefixes", "appRoots", "workspaceRoots", "personalFiles", "duplicateRoots", "plugins", "autoClean", "exclusions"], t("config.root"), errors);
+
+  if (raw.tasks !== undefined) {
+    if (!Array.isArray(raw.tasks)) {
+      errors.push(`tasks: ${t("config.mustBeArray")}`);
+    } else {
+      raw.tasks.forEach((task, i) => {
+        const at = `tasks[${i}]`;
+        if (!isPlainObject(task)) { errors.push(`${at}: ${t("config.mustBeObject")}`); return; }
+        checkKeys(task, ["name", "description", "paths", "commands", "enabled", "maxAgeDays", "keepLatest", "autoSafe"], at, errors);
+        if (typeof task.name !== "string" || !task.name.trim()) { errors.push(`${at}.name: ${t("config.mustBeNonEmptyString")}`); return; }
+        if (task.description !== undefined && typeof task.description !== "string") errors.push(`${at}.description: ${t("config.mustBeString")}`);
+        if (task.paths !== undefined && !isStringArray(task.paths)) errors.push(`${at}.paths: ${t("config.mustBeStringArray")}`);
+        if (task.commands !== undefined && !isStringArray(task.commands)) errors.push(`${at}.commands: ${t("config.mustBeStringArray")}`);
+        if (task.enabled !== undefined && typeof task.enabled !== "boolean") errors.push(`${at}.enabled: ${t("config.mustBeBoolean")}`);
+        if (task.autoSafe !== undefined && typeof task.autoSafe !== "boolean") errors.push(`${at}.autoSafe: ${t("config.mustBeBoolean")}`);
+        if (task.maxAgeDays !== undefined && (typeof task.maxAgeDays !== "number" || task.maxAgeDays < 0)) {
+          errors.push(`${at}.maxAgeDays: ${t("config.mustBeNonNegative")}`);
+        }
+        if (task.keepLatest !== undefined && (!Number.isInteger(task.keepLatest) || (task.keepLatest as number) < 1)) {
+          errors.push(`${at}.keepLatest: ${t("config.mustBePositiveInt")}`);
+        }
+        const name = (task.name as string).toLowerCase();
+        const builtIn = CLEANUP_TASKS.some(b => b.name.toLowerCase() === name) || pluginNames?.some(n => n.toLowerCase() === name);
+        if (pluginNames && !builtIn && task.paths === undefined && task.commands === undefined) {
+          errors.push(`${at}: ${t("config.taskNeedsPaths", { name: task.name as string })}`);
+        }
+      });
+    }
   }
 
-  stop(): void {
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-      this.intervalId = null;
+  if (raw.residualLocations !== undefined) {
+    const rl = raw.residualLocations;
+    if (!isPlainObject(rl)) {
+      errors.push(`residualLocations: ${t("config.mustBeAddRemove")}`);
+    } else {
+      checkKeys(rl, ["add", "remove"], "residualLocations", errors);
+      if (rl.add !== undefined) {
+        if (!Array.isArray(rl.add)) {
+          errors.push(`residualLocations.add: ${t("config.mustBeArray")}`);
+        } else {
+          rl.add.forEach((loc, i) => {
+            const at = `residualLocations.add[${i}]`;
+            if (!isPlainObject(loc)) { errors.push(`${at}: ${t("config.mustBeObject")}`); return; }
+            checkKeys(loc, ["path", "category", "confidenceBase"], at, errors);
+            if (typeof loc.path !== "string" || !loc.path) errors.push(`${at}.path: ${t("config.mustBeNonEmptyString")}`);
+            if (typeof loc.category !== "string" || !loc.category) errors.push(`${at}.category: ${t("config.mustBeNonEmptyString")}`);
+            if (!["high", "medium", "low"].includes(loc.confidenceBase as string)) {
+              errors.push(`${at}.confidenceBase: ${t("config.mustBeConfidence")}`);
+            }
+          });
+        }
+      }
+      if (rl.remove !== undefined && !isStringArray(rl.remove)) errors.push(`residualLocations.remove: ${t("config.mustBeStringArray")}`);
     }
-    process.stdout.write("\r" + " ".repeat(100) + "\r");
   }
-}
 
-// ============================================================================
-// 通用互動式選單（標記刪除）
-// ============================================================================
+  if (raw.bundleMappings !== undefined) {
+    if (!isPlainObject(raw.bundleMappings) || !Object.values(raw.bundleMappings).every(v => typeof v === "string")) {
+      errors.push(`bundleMappings: ${t("config.mustBeBundleMappings")}`);
+    }
+  }
 
-interface SelectableItem {
-  name: string;
-  path: string;
-  size: number;
-  detail?: string;
-  confidence?: "high" | "medium" | "low";
-  category?: string;
-}
+  if (raw.systemPrefixes !== undefined) {
+    const sp = raw.systemPrefixes;
+    if (!isPlainObject(sp)) {
+      errors.push(`systemPrefixes: ${t("config.mustBeAddRemove")}`);
+    } else {
+      checkKeys(sp, ["add", "remove"], "systemPrefixes", errors);
+      if (sp.add !== undefined && !isStringArray(sp.add)) errors.push(`systemPrefixes.add: ${t("config.mustBeStringArray")}`);
+      if (sp.remove !== undefined && !isStringArray(sp.remove)) errors.push(`systemPrefixes.remove: ${t("config.mustBeStringArray")}`);
+    }
+  }
 
-class InteractiveSelector {
-  private items: SelectableItem[];
-  private selectedIndex = 0;
-  private deleteQueue: Set<number> = new Set();
-  private scrollOffset = 0;
-  private filterConfidence: "all" | "high" | "medium" | "low" = "all";
-  private title: string;
-  private hasSudo: boolean;
+  if (raw.appRoots !== undefined && !isStringArray(raw.appRoots)) errors.push(`appRoots: ${t("config.mustBeStringArray")}`);
+  if (raw.workspaceRoots !== undefined && !isStringArray(raw.workspaceRoots)) errors.push(`workspaceRoots: ${t("config.mustBeStringArray")}`);
+  if (raw.duplicateRoots !== undefined && !isStringArray(raw.duplicateRoots)) errors.push(`duplicateRoots: ${t("config.mustBeStringArray")}`);
+  if (raw.plugins !== undefined && !isStringArray(raw.plugins)) errors.push(`plugins: ${t("config.mustBeStringArray")}`);
+
+  if (raw.personalFiles !== undefined) {
+    const pf = raw.personalFiles;
+    if (!isPlainObject(pf)) {
+      errors.push(`personalFiles: ${t("config.mustBePersonalFiles")}`);
+    } else {
+      checkKeys(pf, ["roots", "minSizeMB", "olderThanDays"], "personalFiles", errors);
+      if (pf.roots !== undefined && !isStringArray(pf.roots)) errors.push(`personalFiles.roots: ${t("config.mustBeStringArray")}`);
+      for (const k of ["minSizeMB", "olderThanDays"]) {
+        if (pf[k] !== undefined && (typeof pf[k] !== "number" || (pf[k] as number) < 0)) {
+          errors.push(`personalFiles.${k}: ${t("config.mustBeNonNegative")}`);
+        }
+      }
+    }
+  }
 
-  constructor(items: SelectableItem[], title: string, hasSudo: boolean) {
-    this.items = items;
-    this.title = title;
-    this.hasSudo = hasSudo;
+  if (raw.autoClean !== undefined) {
+    const ac = raw.autoClean;
+    if (!isPlainObject(ac)) {
+      errors.push(`autoClean: ${t("config.mustBeObject")}`);
+    } else {
+      checkKeys(ac, ["minFreeGB", "targetFreeGB", "tasks", "minAgeDays", "maxGBPerRun", "logFile"], "autoClean", errors);
+      for (const k of ["minFreeGB", "targetFreeGB", "minAgeDays", "maxGBPerRun"]) {
+        if (ac[k] !== undefined && (typeof ac[k] !== "number" || (ac[k] as number) < 0)) {
+          errors.push(`autoClean.${k}: ${t("config.mustBeNonNegative")}`);
+        }
+      }
+      const min = ac.minFreeGB ?? AUTO_CLEAN_DEFAULTS.minFreeGB;
+      const target = ac.targetFreeGB ?? AUTO_CLEAN_DEFAULTS.targetFreeGB;
+      if (typeof min === "number" && typeof target === "number" && target < min) {
+        errors.push(`autoClean.targetFreeGB: ${t("config.targetBelowMin")}`);
+      }
+      if (ac.tasks !== undefined && !isStringArray(ac.tasks)) errors.push(`autoClean.tasks: ${t("config.mustBeStringArray")}`);
+      if (ac.logFile !== undefined && typeof ac.logFile !== "string") errors.push(`autoClean.logFile: ${t("config.mustBeString")}`);
+    }
   }
 
-  private get filteredItems(): SelectableItem[] {
-    if (this.filterConfidence === "all") return this.items;
-    return this.items.filter(o => o.confidence === this.filterConfidence);
+  if (raw.exclusions !== undefined) {
+    if (!Array.isArray(raw.exclusions)) {
+      errors.push(`exclusions: ${t("config.mustBeArray")}`);
+    } else {
+      raw.exclusions.forEach((rule, i) => {
+        const at = `exclusions[${i}]`;
+        if (!isPlainObject(rule)) { errors.push(`${at}: ${t("config.mustBeObject")}`); return; }
+        checkKeys(rule, ["glob", "path", "bundleId", "note"], at, errors);
+        const kinds = ["glob", "path", "bundleId"].filter(k => rule[k] !== undefined);
+        if (kinds.length !== 1) errors.push(`${at}: ${t("config.oneExclusionKind")}`);
+        for (const k of kinds) {
+          if (typeof rule[k] !== "string" || !rule[k]) errors.push(`${at}.${k}: ${t("config.mustBeNonEmptyString")}`);
+        }
+        if (rule.note !== undefined && typeof rule.note !== "string") errors.push(`${at}.note: ${t("config.mustBeString")}`);
+      });
+    }
   }
 
-  private clearScreen(): void { process.stdout.write("\x1b[2J\x1b[H"); }
-  private hideCursor(): void { process.stdout.write("\x1b[?25l"); }
-  private showCursor(): void { process.stdout.write("\x1b[?25h"); }
+  return errors;
+}
 
-  private getConfidenceIcon(c?: string): string {
-    return c === "high" ? "🔴" : c === "medium" ? "🟡" : c === "low" ? "⚪" : "📦";
+export function mergeConfig(user: UserConfig, file: string | null, plugins: CleanupProvider[] = [], warnings: Message[] = []): AppConfig {
+  const tasks = CLEANUP_TASKS.map(t => ({ ...t }));
+  // 先套用舊名稱的設定，之後直接指定新名稱的覆寫優先
+  for (const task of tasks) {
+    const legacy = task.splitFrom && user.tasks?.find(t => t.name.toLowerCase() === task.splitFrom!.toLowerCase());
+    if (!legacy) continue;
+    const { enabled, maxAgeDays, keepLatest, autoSafe } = legacy;
+    Object.assign(task, Object.fromEntries(Object.entries({ enabled, maxAgeDays, keepLatest, autoSafe }).filter(([, v]) => v !== undefined)));
   }
-
-  private getConfidenceColor(c?: string): string {
-    return c === "high" ? colors.red : c === "medium" ? colors.yellow : colors.dim;
+  for (const t of user.tasks ?? []) {
+    const existing = tasks.find(b => b.name.toLowerCase() === t.name.toLowerCase());
+    const plugin = plugins.find(p => p.name.toLowerCase() === t.name.toLowerCase());
+    if (existing) {
+      Object.assign(existing, t, { name: existing.name });
+      if (t.description !== undefined) delete existing.descriptionKey;
+    } else if (plugin) {
+      if (t.enabled !== undefined) plugin.enabled = t.enabled;
+      if (t.maxAgeDays !== undefined) plugin.maxAgeDays = t.maxAgeDays;
+      if (t.autoSafe !== undefined) plugin.autoSafe = t.autoSafe;
+    } else if (t.paths !== undefined || t.commands !== undefined) {
+      // 沒有路徑也沒有指令的是外掛任務的覆寫；外掛未載入時沒有對象，略過
+      tasks.push({
+        name: t.name,
+        description: t.description ?? t.name,
+        paths: t.paths ?? [],
+        commands: t.commands,
+        enabled: t.enabled ?? true,
+        maxAgeDays: t.maxAgeDays,
+        keepLatest: t.keepLatest,
+        autoSafe: t.autoSafe,
+      });
+    }
   }
 
-  private render(): void {
-    this.clearScreen();
-    const filtered = this.filteredItems;
-    const markedSize = Array.from(this.deleteQueue).reduce((sum, i) => sum + this.items[i].size, 0);
+  const removed = new Set((user.residualLocations?.remove ?? []).map(expandPath));
+  const residualLocations = [...RESIDUAL_LOCATIONS, ...plugins.flatMap(p => p.residualLocations ?? [])]
+    .filter(l => !removed.has(expandPath(l.path)));
+  for (const loc of user.residualLocations?.add ?? []) {
+    const idx = residualLocations.findIndex(l => expandPath(l.path) === expandPath(loc.path));
+    if (idx >= 0) residualLocations[idx] = loc;
+    else residualLocations.push(loc);
+  }
 
-    console.log("═".repeat(80));
-    console.log(`${colors.bright}${colors.cyan}  ${this.title}${colors.reset}`);
-    console.log("═".repeat(80));
-    console.log(`\n  ${colors.dim}↑/↓ 選擇 | 空白鍵 標記 | a 全選 | Enter 確認刪除 | q 退出${colors.reset}`);
+  const removedPrefixes = new Set(user.systemPrefixes?.remove ?? []);
+  const systemPrefixes = [...SYSTEM_PREFIXES.filter(p => !removedPrefixes.has(p)), ...(user.systemPrefixes?.add ?? [])];
+
+  return {
+    file,
+    tasks,
+    residualLocations,
+    bundleMappings: Object.assign({}, KNOWN_BUNDLE_MAPPINGS, ...plugins.map(p => p.bundleMappings ?? {}), user.bundleMappings),
+    systemPrefixes,
+    appRoots: user.appRoots ?? APP_ROOTS,
+    workspaceRoots: user.workspaceRoots ?? WORKSPACE_ROOTS,
+    personalFiles: {
+      roots: user.personalFiles?.roots ?? PERSONAL_ROOTS,
+      minSizeMB: user.personalFiles?.minSizeMB ?? PERSONAL_MIN_SIZE_MB,
+      olderThanDays: user.personalFiles?.olderThanDays ?? PERSONAL_OLDER_THAN_DAYS,
+    },
+    duplicateRoots: user.duplicateRoots ?? DUPLICATE_ROOTS,
+    plugins: user.plugins ?? [],
+    providers: [...tasks.map(taskToProvider), ...plugins],
+    autoClean: { ...AUTO_CLEAN_DEFAULTS, ...user.autoClean },
+    exclusionRules: user.exclusions ?? [],
+    exclusions: new ExclusionRules(user.exclusions ?? []),
+    warnings,
+  };
+}
 
-    if (this.items.some(i => i.confidence)) {
-      console.log(`  ${colors.dim}1 高信心 | 2 中信心 | 3 低信心 | 0 全部${colors.reset}`);
+// 未指定路徑且預設設定檔不存在時使用內建預設值；指定的路徑不存在則視為錯誤。
+// 只有掃描與清理需要外掛；不載入時外掛損壞也不會影響還原等指令
+async function loadConfig(path?: string, options: { plugins?: boolean } = {}): Promise<AppConfig> {
+  const file = expandPath(path ?? defaultConfigPath());
+  const warnings: Message[] = [];
+  let text: string;
+  try {
+    text = await readFile(file, "utf-8");
+  } catch (err) {
+    if (!path && (err as NodeJS.ErrnoException).code === "ENOENT") {
+      return mergeConfig({}, null, options.plugins ? await loadPlugins([], null, warnings) : [], warnings);
     }
+    throw new MessageError("config.readFailed", { file, error: (err as Error).message });
+  }
 
-    const filterText = this.filterConfidence === "all" ? "全部" :
-      this.filterConfidence === "high" ? "🔴高" : this.filterConfidence === "medium" ? "🟡中" : "⚪低";
-    console.log(`\n  已標記: ${colors.yellow}${this.deleteQueue.size}${colors.reset} | 大小: ${colors.yellow}${formatSize(markedSize)}${colors.reset} | 篩選: ${filterText}`);
-    console.log("\n" + "─".repeat(80));
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    throw new MessageError("config.invalidJson", { file, error: (err as Error).message });
+  }
 
-    const maxVisible = 12;
-    if (this.selectedIndex < this.scrollOffset) this.scrollOffset = this.selectedIndex;
-    else if (this.selectedIndex >= this.scrollOffset + maxVisible) this.scrollOffset = this.selectedIndex - maxVisible + 1;
+  // 外掛須先載入，tasks 才能覆寫外掛 provider 的設定
+  const specs = isPlainObject(raw) && isStringArray(raw.plugins) ? raw.plugins : [];
+  const plugins = options.plugins ? await loadPlugins(specs, file, warnings) : [];
+  const errors = validateUserConfig(raw, options.plugins && warnings.length === 0 ? plugins.map(p => p.name) : null);
+  if (errors.length > 0) {
+    throw new MessageError("config.errors", { file, n: errors.length, details: errors.map(e => `  - ${e}`).join("\n") });
+  }
+  return mergeConfig(raw as UserConfig, file, plugins, warnings);
+}
 
-    const start = this.scrollOffset;
-    const end = Math.min(filtered.length, start + maxVisible);
+// ============================================================================
+// 排除規則（受保護的路徑）
+// ============================================================================
 
-    if (filtered.length === 0) {
-      console.log(`\n  ${colors.dim}沒有符合條件的項目${colors.reset}`);
-    }
+// 每條規則擇一指定 glob、path 或 bundleId，note 為顯示用的說明：
+//   { "glob": "~/Library/Caches/com.mycorp.*" }
+//   { "path": "~/Library/Application Support/LicenseData", "note": "授權資料" }
+//   { "bundleId": "com.mycorp.*" }
+// 受保護路徑底下的項目同樣會被排除；刪除目標為上層資料夾時，只有底下確實有受保護的路徑才排除，
+// 避免連同受保護內容一併刪除，又不會因為 ** 而擋下整個快取資料夾。
+
+interface ExclusionRule {
+  glob?: string;
+  path?: string;
+  bundleId?: string;
+  note?: string;
+}
 
-    for (let i = start; i < end; i++) {
-      const item = filtered[i];
-      const realIdx = this.items.indexOf(item);
-      const isSelected = i === this.selectedIndex;
-      const isMarked = this.deleteQueue.has(realIdx);
+// 資料夾底下是否有符合的路徑，找到第一個即停止；只進入 descend 允許的資料夾，不跟隨符號連結
+function containsMatch(dir: string, matches: (path: string) => boolean, descend: (path: string) => boolean): boolean {
+  let entries: Dirent[];
+  try {
+    entries = readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return false;
+  }
+  for (const e of entries) {
+    const p = join(dir, e.name);
+    if (matches(p)) return true;
+    if (e.isDirectory() && descend(p) && containsMatch(p, matches, descend)) return true;
+  }
+  return false;
+}
 
-      const marker = isMarked ? `${colors.red}[✗]${colors.reset}` : "[ ]";
-      const cursor = isSelected ? `${colors.cyan}▶${colors.reset}` : " ";
-      const icon = this.getConfidenceIcon(item.confidence);
-      const colorFn = this.getConfidenceColor(item.confidence);
-      const name = item.name.substring(0, 20).padEnd(20);
-      const cat = (item.category || "").substring(0, 10).padEnd(10);
-      const line = ` ${cursor} ${marker} ${icon} ${colorFn}${name}${colors.reset} ${colors.dim}${cat}${colors.reset} ${colors.yellow}${formatSize(item.size).padStart(10)}${colors.reset}`;
+export class ExclusionRules {
+  private compiled: { label: string; test: (path: string) => boolean }[];
 
-      console.log(isSelected ? `${colors.bgBlue}${line}${colors.reset}` : line);
-    }
+  constructor(rules: ExclusionRule[]) {
+    this.compiled = rules.map(rule => ({ label: ExclusionRules.describe(rule), test: ExclusionRules.compile(rule) }));
+  }
 
-    if (filtered.length > maxVisible) {
-      const pct = Math.round((this.scrollOffset / Math.max(1, filtered.length - maxVisible)) * 100);
-      console.log(`\n  ${colors.dim}▲▼ ${pct}%${colors.reset}`);
+  static describe(rule: ExclusionRule): string {
+    const base = rule.glob !== undefined ? `glob:${rule.glob}` : rule.path !== undefined ? `path:${rule.path}` : `bundleId:${rule.bundleId}`;
+    return rule.note ? `${base} (${rule.note})` : base;
+  }
+
+  private static compile(rule: ExclusionRule): (path: string) => boolean {
+    if (rule.path !== undefined) {
+      const protectedPath = expandPath(rule.path).replace(/\/+$/, "");
+      return p => p === protectedPath || p.startsWith(protectedPath + "/") || protectedPath.startsWith(p + "/");
     }
 
-    // 詳細資訊
-    console.log("\n" + "─".repeat(80));
-    const sel = filtered[this.selectedIndex];
-    if (sel) {
-      console.log(`\n${colors.bright}${sel.name}${colors.reset}`);
-      console.log(`  路徑: ${colors.cyan}${sel.path}${colors.reset}`);
-      console.log(`  大小: ${colors.yellow}${formatSize(sel.size)}${colors.reset}`);
-      if (sel.detail) console.log(`  ${colors.dim}${sel.detail}${colors.reset}`);
+    if (rule.glob !== undefined) {
+      const testers = expandBraces(expandPath(rule.glob)).map(alt => {
+        const segments = alt.split("/");
+        const full = globToRegExp(alt);
+        const globstar = segments.indexOf("**");
+        const prefixes: RegExp[] = [];
+        // 路徑的前幾層是否符合樣式的前幾層，即底下仍可能有符合的路徑；** 之後的層級都可能符合
+        const couldContain = (p: string): boolean => {
+          const parts = p.split("/");
+          const depth = globstar >= 0 ? Math.min(parts.length, globstar) : parts.length;
+          if (globstar < 0 && segments.length <= depth) return false;
+          prefixes[depth] ??= globToRegExp(segments.slice(0, depth).join("/"));
+          return prefixes[depth].test(parts.slice(0, depth).join("/"));
+        };
+        return (p: string) => {
+          // 符合的路徑本身與其底下的項目都受保護
+          const parts = p.split("/");
+          if (parts.some((_, i) => i > 0 && full.test(parts.slice(0, i + 1).join("/")))) return true;
+          if (!couldContain(p)) return false;
+          // 剩餘部分不含萬用字元時直接確認受保護的路徑是否存在，否則往下找實際存在且符合的路徑
+          const rest = segments.slice(p.split("/").length);
+          if (globstar < 0 && !rest.some(hasGlobMagic)) return existsSync(join(p, ...rest.map(unescapeGlob)));
+          return containsMatch(p, q => full.test(q), couldContain);
+        };
+      });
+      return p => testers.some(t => t(p));
     }
-  }
+
+    // Bundle ID 可能出現在路徑中任一段，去除 .plist 等副檔名與 Team ID 前綴後比對
+    const pattern = globToRegExp(rule.bundleId ?? "");
+    return p => p.split("/").some(seg => {
+      const bare = seg.replace(/\.(plist|savedState|binarycookies)$/i, "");
+      return pattern.test(bare) || pattern.test(bare.replace(/^[A-Z0-9]{10}\.(group\.)?/, ""));
+    });
+  }
+
+  get size(): number {
+    return this.compiled.length;
+  }
+
+  // 回傳排除此路徑的規則說明，未被排除時回傳 null
+  match(path: string): string | null {
+    return this.compiled.find(r => r.test(path))?.label ?? null;
+  }
+}
+
+function printExcluded(entries: ExcludedEntry[]): void {
+  if (entries.length === 0) return;
+  console.log(`\n  ${colors.dim}${t("scan.excluded", { n: entries.length })}${colors.reset}`);
+  for (const e of entries) {
+    console.log(`  ${colors.dim}⛔ ${e.path}${e.task ? ` [${e.task}]` : ""} ← ${e.rule}${colors.reset}`);
+  }
+}
+
+// ============================================================================
+// 目錄大小計算
+// ============================================================================
+
+interface SizeReport extends EntryTimes {
+  // 檔案內容的位元組數（同 du -A）
+  apparent: number;
+  // 實際佔用的磁碟區塊（同 du -k）；稀疏檔與 APFS 壓縮檔會小於 apparent
+  allocated: number;
+  // 逾時、取消或有子目錄無法讀取時，大小只是下限
+  incomplete: boolean;
+}
+
+interface SizeOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+const SIZE_TIMEOUT_MS = 120_000;
+
+// 在程序內走訪目錄樹計算大小，取代逐一呼叫 du。
+// 同一個實例內的硬連結（相同 dev:ino）只計算一次，跨路徑亦然，因此量測刪除前後大小時必須各用一個新實例。
+class SizeCalculator {
+  static concurrency = 32;
+  // 所有實例共用，同時掃描多個任務時檔案系統呼叫的總數仍受限
+  private static active = 0;
+  private static waiting: (() => void)[] = [];
+  readonly warnings: Message[] = [];
+  private seenLinks = new Set<string>();
+
+  // 限制同時進行的檔案系統呼叫數量
+  private async limited<T>(fn: () => Promise<T>): Promise<T> {
+    if (SizeCalculator.active >= SizeCalculator.concurrency) {
+      await new Promise<void>(resolve => SizeCalculator.waiting.push(resolve));
+    }
+    SizeCalculator.active++;
+    try {
+      return await fn();
+    } finally {
+      SizeCalculator.active--;
+      SizeCalculator.waiting.shift()?.();
+    }
+  }
+
+  async measure(path: string, options: SizeOptions = {}): Promise<SizeReport> {
+    const report: SizeReport = { apparent: 0, allocated: 0, modifiedAt: 0, accessedAt: 0, incomplete: false };
+    const deadline = Date.now() + (options.timeoutMs ?? SIZE_TIMEOUT_MS);
+    let stopReason: string | null = null;
+
+    const stopped = (): boolean => {
+      if (stopReason) return true;
+      if (options.signal?.aborted) stopReason = t("size.cancelled");
+      else if (Date.now() > deadline) stopReason = t("size.timeout", { seconds: (options.timeoutMs ?? SIZE_TIMEOUT_MS) / 1000 });
+      return stopReason !== null;
+    };
+
+    // 目錄下的子路徑加入 next，於下一層處理
+    const visit = async (p: string, next: string[]): Promise<void> => {
+      if (stopped()) return;
+      let st;
+      try {
+        st = await this.limited(() => lstat(p));
+      } catch (err) {
+        // 路徑不存在是正常情況（例如刪除後重新量測）
+        if ((err as NodeJS.ErrnoException).code !== "ENOENT") this.warn(p, err, report);
+        return;
+      }
+
+      report.modifiedAt = Math.max(report.modifiedAt, st.mtimeMs);
+      if (!st.isDirectory()) {
+        // 存取時間只取檔案：列出目錄本身就會更新目錄的 atime，計入的話每次掃描都會讓項目看起來剛被使用過
+        report.accessedAt = Math.max(report.accessedAt, st.atimeMs);
+        if (st.nlink > 1) {
+          const key = `${st.dev}:${st.ino}`;
+          if (this.seenLinks.has(key)) return;
+          this.seenLinks.add(key);
+        }
+      }
+      report.apparent += st.size;
+      report.allocated += st.blocks * 512;
+      if (!st.isDirectory()) return;
+
+      let names: string[];
+      try {
+        names = await this.limited(() => readdir(p));
+      } catch (err) {
+        this.warn(p, err, report);
+        return;
+      }
+      for (const name of names) next.push(join(p, name));
+    };
+
+    // 逐層展開並以 runPool 限制同時處理的路徑數，大型目錄樹不會一次為每個項目建立 promise
+    let level = [path];
+    while (level.length > 0 && !stopped()) {
+      const next: string[] = [];
+      await runPool(level, SizeCalculator.concurrency, p => visit(p, next));
+      level = next;
+    }
+    if (!report.accessedAt) report.accessedAt = report.modifiedAt;
+    if (stopReason) {
+      report.incomplete = true;
+      this.warnings.push(translated("size.partial", { path, reason: stopReason }));
+    }
+    return report;
+  }
+
+  // 依掃描選項取得要回報的大小
+  async sizeFor(path: string, options: ScanOptions): Promise<SizeReport & { size: number }> {
+    const report = await this.measure(path, { timeoutMs: options.sizeTimeoutMs, signal: options.signal });
+    return { ...report, size: options.apparentSize ? report.apparent : report.allocated };
+  }
+
+  private warn(path: string, err: unknown, report: SizeReport): void {
+    const e = err as NodeJS.ErrnoException;
+    this.warnings.push(translated("size.unreadable", { path, error: e.code ?? e.message }));
+    report.incomplete = true;
+  }
+}
+
+function daysSinceUsed(times: EntryTimes): number {
+  return (Date.now() - Math.max(times.modifiedAt, times.accessedAt)) / 86400e3;
+}
+
+function printCancelled(cancelled: boolean): void {
+  if (cancelled) console.log(`\n  ${colors.yellow}${t("scan.cancelled")}${colors.reset}`);
+}
+
+function printWarnings(warnings: Message[]): void {
+  if (warnings.length === 0) return;
+  console.log(`\n  ${colors.yellow}${t("scan.warnings", { n: warnings.length })}${colors.reset}`);
+  for (const w of warnings) console.log(`  ${colors.dim}${w.text}${colors.reset}`);
+}
+
+// ============================================================================
+// 進度顯示
+// ============================================================================
+
+class ProgressDisplay {
+  static enabled = true;
+  private spinner = ["⠋", "⠙", "⠹", "⠸", "⠼", "⠴", "⠦", "⠧", "⠇", "⠏"];
+  private index = 0;
+  private intervalId: NodeJS.Timeout | null = null;
+  private message = "";
+
+  start(msg: string): void {
+    if (!ProgressDisplay.enabled) return;
+    this.message = msg;
+    this.index = 0;
+    this.intervalId = setInterval(() => {
+      process.stdout.write(`\r${colors.cyan}${this.spinner[this.index]}${colors.reset} ${this.message}`);
+      this.index = (this.index + 1) % this.spinner.length;
+    }, 80);
+  }
+
+  update(msg: string): void {
+    this.message = msg;
+  }
+
+  stop(): void {
+    if (!ProgressDisplay.enabled) return;
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    process.stdout.write("\r" + " ".repeat(100) + "\r");
+  }
+
+  // 在進度列上方印出一行，進度列繼續顯示
+  log(line: string): void {
+    if (ProgressDisplay.enabled) process.stdout.write("\r" + " ".repeat(100) + "\r");
+    console.log(line);
+  }
+}
+
+// ============================================================================
+// 並行掃描
+// ============================================================================
+
+const DEFAULT_SCAN_JOBS = 4;
+
+// 以固定數量的 worker 依序取出工作執行；中止後不再開始新工作，已完成的結果照常回傳（未執行的位置為 undefined）
+async function runPool<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<R>,
+  signal?: AbortSignal,
+): Promise<(R | undefined)[]> {
+  const results: (R | undefined)[] = new Array(items.length);
+  let next = 0;
+  const run = async (): Promise<void> => {
+    while (next < items.length && !signal?.aborted) {
+      const idx = next++;
+      results[idx] = await worker(items[idx]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, run));
+  return results;
+}
+
+// 掃描期間攔截 Ctrl-C：中止掃描並恢復終端機狀態，讓掃描器帶著部分結果返回。
+// 再按一次 Ctrl-C 則立即結束程式。
+function interceptInterrupt(parent?: AbortSignal): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
+  const onParentAbort = () => controller.abort();
+  parent?.addEventListener("abort", onParentAbort);
+  if (parent?.aborted) controller.abort();
+
+  const onSigint = () => {
+    if (process.stdin.isTTY) process.stdin.setRawMode(false);
+    if (process.stdout.isTTY) process.stdout.write("\x1b[?25h");
+    if (controller.signal.aborted) process.exit(130);
+    controller.abort();
+  };
+  process.on("SIGINT", onSigint);
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      process.off("SIGINT", onSigint);
+      parent?.removeEventListener("abort", onParentAbort);
+    },
+  };
+}
+
+// 多個工作同時進行時的進度列：完成數 / 總數、目前找到的大小，以及每個進行中工作的經過時間
+class ScanProgress {
+  private display = new ProgressDisplay();
+  private active = new Map<number, { name: string; since: number }>();
+  private nextId = 0;
+  private done = 0;
+  private bytes = 0;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private label: string, private total: number, private quiet = false) {}
+
+  start(): void {
+    this.display.start(this.message());
+    if (ProgressDisplay.enabled) this.timer = setInterval(() => this.display.update(this.message()), 200);
+  }
+
+  // 回傳工作代號供 finish 使用；同名工作（例如設定檔加入相同分類的位置）可同時進行
+  begin(name: string): number {
+    const id = this.nextId++;
+    this.active.set(id, { name, since: Date.now() });
+    this.display.update(this.message());
+    return id;
+  }
+
+  // 工作完成時印出耗時與找到的大小
+  finish(id: number, bytes: number): void {
+    const job = this.active.get(id);
+    if (!job) return;
+    const { name, since } = job;
+    const elapsed = Date.now() - since;
+    this.active.delete(id);
+    this.done++;
+    this.bytes += bytes;
+    if (!this.quiet) {
+      const found = bytes > 0 ? formatSize(bytes).padStart(10) : `${colors.dim}${"-".padStart(10)}${colors.reset}`;
+      this.display.log(`  ${colors.green}✓${colors.reset} ${name.padEnd(22)} ${found}  ${colors.dim}${formatElapsed(elapsed)}${colors.reset}`);
+    }
+    this.display.update(this.message());
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.display.stop();
+  }
+
+  private message(): string {
+    const now = Date.now();
+    const running = [...this.active.values()].map(j => `${j.name} ${formatElapsed(now - j.since)}`).join(", ");
+    const line = `${this.label} ${this.done}/${this.total} · ${t("scan.progressFound", { size: formatSize(this.bytes) })}${running ? ` · ${running}` : ""}`;
+    const width = (process.stdout.columns ?? 100) - 4;
+    return line.length > width ? line.slice(0, width - 1) + "…" : line;
+  }
+}
+
+function formatElapsed(ms: number): string {
+  return ms < 60_000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.floor(ms / 60_000)}m${Math.floor((ms % 60_000) / 1000)}s`;
+}
+
+// ============================================================================
+// 隔離區（可復原的移除）
+// ============================================================================
+
+type RemovalMode = "delete" | "quarantine" | "trash";
+
+interface QuarantineEntry {
+  id: string;
+  name: string;
+  originalPath: string;
+  storedPath: string;
+  size: number;
+  removedAt: string;
+  mode: "quarantine" | "trash";
+  sudo: boolean;
+}
+
+function quarantineDir(): string {
+  return join(homedir(), ".local", "share", "mac-clean-ts", "quarantine");
+}
+
+function quarantineManifestPath(): string {
+  return join(quarantineDir(), "manifest.json");
+}
+
+function newQuarantineId(): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, "").replace("T", "-").slice(0, 15);
+  return `${stamp}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function quarantineDestination(path: string, mode: "quarantine" | "trash", id: string): string {
+  return mode === "trash"
+    ? join(homedir(), ".Trash", `${basename(path)} ${id}`)
+    : join(quarantineDir(), id, basename(path));
+}
+
+async function loadQuarantine(): Promise<QuarantineEntry[]> {
+  try {
+    return JSON.parse(await readFile(quarantineManifestPath(), "utf-8")) as QuarantineEntry[];
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw new MessageError("quarantine.manifestUnreadable", { file: quarantineManifestPath(), error: (err as Error).message });
+  }
+}
+
+async function saveQuarantine(entries: QuarantineEntry[]): Promise<void> {
+  await mkdir(quarantineDir(), { recursive: true });
+  await writeFile(quarantineManifestPath(), JSON.stringify(entries, null, 2) + "\n");
+}
+
+async function recordQuarantine(entry: QuarantineEntry): Promise<void> {
+  const entries = await loadQuarantine();
+  entries.push(entry);
+  await saveQuarantine(entries);
+}
+
+async function movePath(from: string, to: string, sudo: boolean): Promise<void> {
+  await mkdir(dirname(to), { recursive: true });
+  if (sudo) {
+    execFileSync("sudo", ["mv", "--", from, to], { encoding: "utf-8", stdio: "pipe" });
+    return;
+  }
+  try {
+    await rename(from, to);
+  } catch (err) {
+    // 跨磁碟區無法直接 rename，改為複製後刪除
+    if ((err as NodeJS.ErrnoException).code !== "EXDEV") throw err;
+    await cp(from, to, { recursive: true, preserveTimestamps: true, verbatimSymlinks: true });
+    await rm(from, { recursive: true, force: true });
+  }
+}
+
+// 移除隔離區中以 id 命名的空資料夾
+async function cleanupQuarantineSlot(entry: QuarantineEntry): Promise<void> {
+  if (entry.mode !== "quarantine") return;
+  try { await rmdir(join(quarantineDir(), entry.id)); } catch {}
+}
+
+async function restoreEntry(entry: QuarantineEntry, hasSudo: boolean): Promise<void> {
+  if (await pathExists(entry.originalPath)) throw new MessageError("quarantine.originalExists");
+  if (!(await pathExists(entry.storedPath))) throw new MessageError("quarantine.storedMissing", { path: entry.storedPath });
+  if (entry.sudo && !hasSudo) throw new MessageError("quarantine.restoreNeedsSudo");
+  await movePath(entry.storedPath, entry.originalPath, entry.sudo);
+  await cleanupQuarantineSlot(entry);
+}
+
+async function purgeEntry(entry: QuarantineEntry, hasSudo: boolean): Promise<void> {
+  if (entry.sudo) {
+    if (!hasSudo) throw new MessageError("quarantine.purgeNeedsSudo");
+    execFileSync("sudo", ["rm", "-rf", "--", entry.storedPath], { encoding: "utf-8", stdio: "pipe" });
+  } else {
+    await rm(entry.storedPath, { recursive: true, force: true });
+  }
+  await cleanupQuarantineSlot(entry);
+}
+
+// 解析 30d、12h、2w 等時間長度，純數字視為天數
+function parseDuration(text: string): number {
+  const m = /^(\d+(?:\.\d+)?)([hdw]?)$/.exec(text.trim());
+  if (!m) throw new MessageError("quarantine.invalidDuration", { text });
+  const unit = m[2] === "h" ? 3600e3 : m[2] === "w" ? 7 * 86400e3 : 86400e3;
+  return parseFloat(m[1]) * unit;
+}
+
+// ============================================================================
+// 刪除執行
+// ============================================================================
+
+interface DeleteResult {
+  name: string;
+  path: string;
+  size: number;
+  kind: "path" | "command" | "provider";
+  status: "deleted" | "partial" | "failed" | "skipped";
+  freed: number;
+  // 移至隔離區或垃圾桶的大小；尚未釋放空間，不計入 freed
+  moved: number;
+  error?: string;
+  // 由本工具判定的失敗原因（排除規則、SIP）附上訊息 key 與參數
+  errorKey?: MessageKey;
+  errorParams?: MessageParams;
+  quarantineId?: string;
+}
+
+interface DeleteSummary {
+  success: number;
+  fail: number;
+  skipped: number;
+  freed: number;
+  moved: number;
+  results: DeleteResult[];
+}
+
+interface DeleteOptions {
+  quiet?: boolean;
+  removal?: RemovalMode;
+  exclusions?: ExclusionRules;
+  onResult?: (result: DeleteResult) => void;
+}
+
+type DeletionBranch = "container" | "system-sudo" | "plain" | "command" | "provider";
+
+interface DeletionStep {
+  kind: "rm" | "sudo-rm" | "move" | "sudo-move" | "command" | "provider";
+  target: string;
+  // 移至隔離區或垃圾桶時的目的地
+  destination?: string;
+  // 可選步驟失敗不影響結果，成功則至少算部分完成
+  optional: boolean;
+  // 備援步驟僅在前一個必要步驟失敗時執行，成功算部分完成
+  fallback?: boolean;
+}
+
+interface DeletionPlan {
+  item: SelectableItem;
+  branch: DeletionBranch;
+  removal: RemovalMode;
+  quarantineId?: string;
+  steps: DeletionStep[];
+  bytes: number;
+  // 執行前後量測這些路徑的大小以計算實際釋放的空間
+  measure: string[];
+  // 符合排除規則時記錄規則說明，計畫不會執行
+  blockedBy?: string;
+  // 無法復原的移除方式在隔離區或垃圾桶模式下不執行，記錄略過原因
+  skippedKey?: MessageKey;
+}
+
+// 試執行與實際刪除共用此決策：同一項目永遠得到同一份計畫
+export function planDeletion(item: SelectableItem, hasSudo: boolean, removal: RemovalMode = "delete"): DeletionPlan {
+  if (item.target && (removal === "delete" || !item.path)) {
+    // provider 自行移除，無法復原：隔離區或垃圾桶模式下有路徑的目標改以一般流程搬移，沒有路徑的則略過
+    const { provider, target } = item.target;
+    return {
+      item,
+      branch: "provider",
+      removal: "delete",
+      steps: [{ kind: "provider", target: provider.describe(target), optional: false }],
+      bytes: item.size,
+      measure: [],
+      ...(removal !== "delete" ? { skippedKey: "delete.irreversible" as const } : {}),
+    };
+  }
+
+  if (item.commands && item.commands.length > 0) {
+    // 指令的效果無法復原，隔離區或垃圾桶模式下略過
+    return {
+      item,
+      branch: "command",
+      removal: "delete",
+      steps: item.commands.map(c => ({ kind: "command", target: c, optional: false })),
+      bytes: item.size,
+      measure: [],
+      ...(removal !== "delete" ? { skippedKey: "delete.irreversible" as const } : {}),
+    };
+  }
+
+  const isContainer = item.path.includes("/Containers/") || item.path.includes("/Group Containers/");
+  const isSystemPath = item.path.startsWith("/Library");
+  const branch: DeletionBranch = isContainer ? "container" : isSystemPath && hasSudo ? "system-sudo" : "plain";
+  const useSudo = branch === "system-sudo" || (branch === "container" && hasSudo);
+
+  if (removal !== "delete") {
+    // 可復原模式：整個搬走；Containers 外殼受 SIP 保護時改搬內部的 Data
+    const id = newQuarantineId();
+    const kind = useSudo ? "sudo-move" : "move";
+    const steps: DeletionStep[] = [{ kind, target: item.path, destination: quarantineDestination(item.path, removal, id), optional: false }];
+    if (branch === "container") {
+      const dataPath = `${item.path}/Data`;
+      steps.push({ kind, target: dataPath, destination: quarantineDestination(dataPath, removal, id), optional: false, fallback: true });
+    }
+    return { item, branch, removal, quarantineId: id, steps, bytes: item.size, measure: [item.path] };
+  }
+
+  const rmKind = useSudo ? "sudo-rm" : "rm";
+  if (branch === "container") {
+    // Containers 受 SIP 保護，先嘗試刪除內部可刪除的內容，再嘗試刪除整個資料夾
+    return {
+      item,
+      branch,
+      removal,
+      steps: [
+        { kind: rmKind, target: `${item.path}/Data`, optional: true },
+        { kind: rmKind, target: item.path, optional: false },
+      ],
+      bytes: item.size,
+      measure: [item.path],
+    };
+  }
+
+  return { item, branch, removal, steps: [{ kind: rmKind, target: item.path, optional: false }], bytes: item.size, measure: [item.path] };
+}
+
+// 快取任務展開為多份計畫：先執行工具本身的清理指令（如 brew cleanup），再刪除剩餘的每個路徑。
+// 指令的釋放量以任務路徑在指令前後的大小差計算，指令清掉路徑以外的檔案不計入。
+function planItem(item: SelectableItem, hasSudo: boolean, removal: RemovalMode = "delete", exclusions?: ExclusionRules): DeletionPlan[] {
+  let plans: DeletionPlan[];
+  if (!item.cleanup) {
+    plans = [planDeletion(item, hasSudo, removal)];
+  } else {
+    const { task, paths, sizes } = item.cleanup;
+    // 指令會清掉整個快取，任務範圍內有受保護的路徑時不執行
+    const roots = task.paths.filter(p => !p.startsWith("!")).flatMap(globRoots);
+    const commandRule = exclusions && task.commands?.length ? roots.map(r => exclusions.match(r)).find(rule => rule !== null) ?? null : null;
+    const commandPlans = (task.commands ?? []).map(command => ({
+      ...planDeletion({ name: task.name, path: "", size: 0, commands: [command] }, hasSudo, removal),
+      measure: paths,
+      ...(commandRule ? { blockedBy: commandRule } : {}),
+    }));
+    const pathPlans = paths.map((p, i) => planDeletion({ name: task.name, path: p, size: sizes[i] }, hasSudo, removal));
+    plans = [...commandPlans, ...pathPlans];
+  }
+
+  // 最後一道防線：掃描之後才加入的排除規則或手動組出的項目仍會在此被擋下（指令已在上方檢查）
+  for (const plan of plans) {
+    if (plan.branch === "command" || !plan.item.path || !exclusions) continue;
+    const rule = exclusions.match(plan.item.path);
+    if (rule) plan.blockedBy = rule;
+  }
+  return plans;
+}
+
+// 每次量測都用新的 SizeCalculator，否則刪除後的量測會把先前看過的硬連結當成已計算
+async function measurePaths(paths: string[]): Promise<number> {
+  const calc = new SizeCalculator();
+  const reports = await Promise.all(paths.map(p => calc.measure(p)));
+  return reports.reduce((sum, r) => sum + r.allocated, 0);
+}
+
+// 只用於顯示；路徑步驟以參數陣列執行（見 runStep），不經過 shell
+function describeStep(step: DeletionStep): string {
+  switch (step.kind) {
+    case "command":
+    case "provider": return step.target;
+    case "move": return `mv "${step.target}" "${step.destination}"`;
+    case "sudo-move": return `sudo mv "${step.target}" "${step.destination}"`;
+    case "sudo-rm": return `sudo rm -rf "${step.target}"`;
+    default: return `rm -rf "${step.target}"`;
+  }
+}
+
+async function runStep(step: DeletionStep): Promise<void> {
+  switch (step.kind) {
+    case "rm":
+      await rm(step.target, { recursive: true, force: true });
+      break;
+    case "move":
+    case "sudo-move":
+      if (!(await pathExists(step.target))) throw new MessageError("delete.pathMissing");
+      await movePath(step.target, step.destination!, step.kind === "sudo-move");
+      break;
+    case "sudo-rm":
+      execFileSync("sudo", ["rm", "-rf", "--", step.target], { encoding: "utf-8", stdio: "pipe" });
+      break;
+    default:
+      // 任務指令由設定檔提供，本來就是 shell 指令
+      execSync(step.target, { encoding: "utf-8" });
+  }
+}
+
+export async function executePlan(plan: DeletionPlan): Promise<DeleteResult> {
+  const { item } = plan;
+  if (plan.blockedBy) {
+    return {
+      name: item.name, path: item.path || describeStep(plan.steps[0]), size: item.size, kind: plan.branch === "command" ? "command" : "path", status: "failed", freed: 0, moved: 0,
+      error: t("delete.excluded", { rule: plan.blockedBy }), errorKey: "delete.excluded", errorParams: { rule: plan.blockedBy },
+    };
+  }
+  if (plan.skippedKey) {
+    return {
+      name: item.name, path: describeStep(plan.steps[0]), size: item.size, kind: plan.branch === "command" ? "command" : "provider",
+      status: "skipped", freed: 0, moved: 0, error: t(plan.skippedKey), errorKey: plan.skippedKey,
+    };
+  }
+  if (item.duplicates && !(await stillDuplicate(item.path, item.duplicates))) {
+    return {
+      name: item.name, path: item.path, size: item.size, kind: "path", status: "failed", freed: 0, moved: 0,
+      error: t("delete.contentChanged"), errorKey: "delete.contentChanged",
+    };
+  }
+
+  const before = await measurePaths(plan.measure);
+  let partialDone = false;
+  let error: string | undefined;
+  let errorKey: MessageKey | undefined;
+  let errorParams: MessageParams | undefined;
+
+  for (let i = 0; i < plan.steps.length; i++) {
+    const step = plan.steps[i];
+    if (step.fallback && !error) continue;
+    try {
+      if (step.kind === "provider") await item.target!.provider.clean!(item.target!.target);
+      else await runStep(step);
+      if (step.optional || step.fallback) partialDone = true;
+      if (step.destination && plan.removal !== "delete") {
+        await recordQuarantine({
+          id: plan.quarantineId!,
+          name: item.name,
+          originalPath: step.target,
+          storedPath: step.destination,
+          size: item.size,
+          removedAt: new Date().toISOString(),
+          mode: plan.removal,
+          sudo: step.kind === "sudo-move",
+        });
+      }
+    } catch (err) {
+      if (step.optional || step.fallback) continue;
+      if (plan.branch === "container") {
+        errorKey = "delete.sipProtected";
+        error = t(errorKey);
+      } else {
+        error = (err as Error).message;
+        if (err instanceof MessageError) ({ key: errorKey, params: errorParams } = err);
+      }
+      if (!plan.steps[i + 1]?.fallback) break;
+    }
+  }
+
+  const remaining = await measurePaths(plan.measure);
+  const status = !error ? "deleted" : partialDone ? "partial" : "failed";
+  // 沒有可量測的路徑（例如 docker 指令）時，成功即以掃描時的大小計入
+  const removed = plan.measure.length > 0 ? Math.max(0, before - remaining) : status === "deleted" ? plan.bytes : 0;
+  const result: DeleteResult = {
+    name: item.name,
+    path: plan.branch === "command" || plan.branch === "provider" ? describeStep(plan.steps[0]) : item.path,
+    size: item.size,
+    kind: plan.branch === "command" || plan.branch === "provider" ? plan.branch : "path",
+    status,
+    freed: plan.removal === "delete" ? removed : 0,
+    moved: plan.removal === "delete" ? 0 : removed,
+  };
+  if (status === "failed") Object.assign(result, { error, errorKey, errorParams });
+  else if (plan.quarantineId) result.quarantineId = plan.quarantineId;
+  return result;
+}
+
+function printPlan(plans: DeletionPlan[]): void {
+  console.log(`\n${colors.bright}${colors.cyan}${t("plan.title")}${colors.reset} ${colors.dim}${t("plan.dryRun")}${colors.reset}\n`);
+  for (const plan of plans) {
+    if (plan.blockedBy) {
+      console.log(`  ${colors.red}${t("plan.blocked")}${colors.reset} ${plan.item.name} ${colors.dim}${plan.item.path || describeStep(plan.steps[0])} ← ${plan.blockedBy}${colors.reset}`);
+      continue;
+    }
+    if (plan.skippedKey) {
+      console.log(`  ${colors.yellow}${t("plan.skipped")}${colors.reset} ${plan.item.name} ${colors.dim}${describeStep(plan.steps[0])} ← ${t(plan.skippedKey)}${colors.reset}`);
+      continue;
+    }
+    const size = plan.branch === "command" && plan.bytes === 0 ? "—" : formatSize(plan.bytes);
+    const removal = plan.removal === "delete" ? "" : ` ${colors.dim}→ ${plan.removal}${colors.reset}`;
+    console.log(`  ${colors.cyan}[${plan.branch}]${colors.reset} ${plan.item.name} ${colors.yellow}${size}${colors.reset}${removal}`);
+    for (const step of plan.steps) {
+      const note = step.optional ? t("plan.optional") : step.fallback ? t("plan.fallback") : "";
+      console.log(`    ${colors.dim}$${colors.reset} ${describeStep(step)}${colors.dim}${note}${colors.reset}`);
+    }
+  }
+  const runnable = plans.filter(p => !p.blockedBy && !p.skippedKey);
+  const total = runnable.reduce((s, p) => s + p.bytes, 0);
+  // 移至隔離區或垃圾桶不會釋放空間，總計改以移動的大小呈現
+  const removal = plans[0]?.removal ?? "delete";
+  console.log(`\n${colors.yellow}${removal === "delete"
+    ? t("plan.total", { n: runnable.length, size: formatSize(total) })
+    : t("plan.totalMoved", { n: runnable.length, size: formatSize(total), target: REMOVAL_LABELS[removal] })}${colors.reset}`);
+}
+
+async function deleteItems(items: SelectableItem[], hasSudo: boolean, options: DeleteOptions = {}): Promise<DeleteSummary> {
+  const log = (line: string) => { if (!options.quiet) console.log(line); };
+  const results: DeleteResult[] = [];
+  const removal = options.removal ?? "delete";
+  let success = 0, fail = 0, skipped = 0, freed = 0, moved = 0;
+
+  log(`\n${colors.cyan}${t(removal === "delete" ? "delete.deleting" : removal === "trash" ? "delete.trashing" : "delete.quarantining")}${colors.reset}\n`);
+
+  for (const plan of items.flatMap(item => planItem(item, hasSudo, removal, options.exclusions))) {
+    const result = await executePlan(plan);
+    results.push(result);
+    options.onResult?.(result);
+    freed += result.freed;
+    moved += result.moved;
+
+    if (result.status === "failed") {
+      fail++;
+      log(`${colors.red}✗${colors.reset} ${result.path} ${colors.dim}(${result.error})${colors.reset}`);
+    } else if (result.status === "skipped") {
+      skipped++;
+      log(`${colors.yellow}–${colors.reset} ${result.path} ${colors.dim}(${result.error})${colors.reset}`);
+    } else {
+      success++;
+      const noteText = [result.freed + result.moved > 0 ? formatSize(result.freed + result.moved) : "", result.quarantineId ? `[${result.quarantineId}]` : ""].filter(Boolean).join(" ");
+      const note = noteText ? ` ${colors.dim}${noteText}${colors.reset}` : "";
+      log(result.status === "partial"
+        ? `${colors.yellow}◐${colors.reset} ${result.path} ${colors.dim}(${t("delete.sipPartial")})${colors.reset}${note}`
+        : `${colors.green}✓${colors.reset} ${result.path}${note}`);
+    }
+  }
+  if (results.length > 0) await RunHistory.append(cleanupRecord(results, removal));
+
+  log(`\n${"─".repeat(40)}`);
+  log(`${colors.green}${t("delete.success", { n: success })}${colors.reset}${fail > 0 ? ` | ${colors.red}${t("delete.failed", { n: fail })}${colors.reset}` : ""}${skipped > 0 ? ` | ${colors.yellow}${t("delete.skipped", { n: skipped })}${colors.reset}` : ""}`);
+  if (removal === "delete" || freed > 0) {
+    log(`${colors.yellow}${t("delete.freed", { size: formatSize(freed) })}${colors.reset} ${colors.dim}${t("delete.measured")}${colors.reset}`);
+  }
+  if (moved > 0) {
+    log(`${colors.yellow}${t("delete.moved", { target: REMOVAL_LABELS[removal], size: formatSize(moved) })}${colors.reset}`);
+  }
+  if (removal !== "delete" && success > 0) {
+    log(`${colors.dim}${t("delete.restoreHint")}${colors.reset}`);
+  }
+  return { success, fail, skipped, freed, moved, results };
+}
+
+// ============================================================================
+// 通用互動式選單（標記刪除）
+// ============================================================================
+
+interface RunSettings {
+  dryRun: boolean;
+  removal: RemovalMode;
+  exclusions: ExclusionRules;
+  // --max-age：掃描只列出超過此天數未使用的項目
+  maxAgeDays?: number;
+}
+
+const REMOVAL_LABELS: Record<RemovalMode, string> = {
+  delete: t("removal.delete"),
+  quarantine: t("removal.quarantine"),
+  trash: t("removal.trash"),
+};
+
+interface SelectableItem {
+  name: string;
+  path: string;
+  size: number;
+  detail?: string;
+  confidence?: "high" | "medium" | "low";
+  category?: string;
+  commands?: string[];
+  // 快取任務：刪除所有路徑並執行任務指令
+  cleanup?: CleanupItem;
+  modifiedAt?: number;
+  accessedAt?: number;
+  score?: number;
+  evidence?: OrphanEvidence[];
+  // 重複檔案的組別；同組至少要留下一個未標記的項目
+  group?: string;
+  // 同組其他檔案的路徑；刪除前以此重新比對內容
+  duplicates?: string[];
+  keeper?: boolean;
+  // 由 provider 的 clean() 移除的目標
+  target?: { provider: CleanupProvider; target: ProviderTarget };
+  needsSudo?: boolean;
+  // 只執行任務指令、沒有可計算大小的路徑，例如清除 DNS 快取
+  action?: boolean;
+}
+
+// 項目涵蓋的路徑：快取任務為其所有路徑，其他項目為自身路徑
+function itemPaths(item: SelectableItem): string[] {
+  if (item.cleanup) return item.cleanup.paths;
+  return item.path && !item.target && !item.commands ? [item.path] : [];
+}
+
+// 瀏覽中的一層：根層為掃描結果，其下為展開的資料夾
+interface SelectorLevel {
+  title: string;
+  items: SelectableItem[];
+  selectedIndex: number;
+  scrollOffset: number;
+  // 以 / 輸入的搜尋字串，各層分開記錄
+  query: string;
+}
+
+type SortMode = "default" | "size" | "name" | "category" | "age";
+
+const SORT_LABELS: Record<SortMode, string> = {
+  default: t("sort.default"),
+  size: t("sort.size"),
+  name: t("sort.name"),
+  category: t("sort.category"),
+  age: t("sort.age"),
+};
+
+// 大小與時間由大到舊排列；沒有時間資訊的項目排在最後
+const SORTERS: Record<Exclude<SortMode, "default">, (a: SelectableItem, b: SelectableItem) => number> = {
+  size: (a, b) => b.size - a.size,
+  name: (a, b) => a.name.localeCompare(b.name),
+  category: (a, b) => (a.category ?? "").localeCompare(b.category ?? "") || b.size - a.size,
+  age: (a, b) => (a.modifiedAt || Number.MAX_SAFE_INTEGER) - (b.modifiedAt || Number.MAX_SAFE_INTEGER),
+};
+
+class InteractiveSelector {
+  private levels: SelectorLevel[];
+  // 以項目物件記錄標記，任何層級的項目都能標記
+  private marked: Set<SelectableItem> = new Set();
+  // 已展開過的子項目，返回後再進入時沿用同一批物件，標記才不會遺失
+  private children: Map<SelectableItem, SelectableItem[]> = new Map();
+  // 在列表中就地展開的快取任務，以及其路徑項目所屬的任務
+  private expanded: Set<SelectableItem> = new Set();
+  private parentOf: Map<SelectableItem, SelectableItem> = new Map();
+  private filterConfidence: "all" | "high" | "medium" | "low" = "all";
+  private notice: string | null = null;
+  private busy = false;
+  private sortMode: SortMode = "default";
+  // 正在輸入搜尋字串時，按鍵都當成文字
+  private searching = false;
+  // 上次繪製時列表可見的行數，供翻頁使用
+  private pageSize = 10;
+  // 顯示確認或刪除計畫畫面時，視窗大小改變不重繪列表
+  private paused = false;
+  private title: string;
+  private hasSudo: boolean;
+  private settings: RunSettings;
+
+  constructor(items: SelectableItem[], title: string, hasSudo: boolean, settings: RunSettings) {
+    this.levels = [{ title, items, selectedIndex: 0, scrollOffset: 0, query: "" }];
+    this.title = title;
+    this.hasSudo = hasSudo;
+    this.settings = settings;
+  }
+
+  private get level(): SelectorLevel {
+    return this.levels[this.levels.length - 1];
+  }
+
+  private get rootItems(): SelectableItem[] {
+    return this.levels[0].items;
+  }
+
+  // 目前層級經信心度篩選、搜尋與排序後的列表；標記記在項目物件上，不受影響
+  private get filteredItems(): SelectableItem[] {
+    let items = this.level.items;
+    // 信心度篩選只作用於根層；展開的子項目沒有信心度
+    if (this.filterConfidence !== "all" && this.levels.length === 1) {
+      items = items.filter(o => o.confidence === this.filterConfidence);
+    }
+    const query = this.level.query.toLowerCase();
+    if (query) {
+      items = items.filter(o => [o.name, o.path, o.category ?? "", ...(o.cleanup?.paths ?? [])].some(s => s.toLowerCase().includes(query)));
+    }
+    const sorted = this.sortMode === "default" ? items : [...items].sort(SORTERS[this.sortMode]);
+    return sorted.flatMap(o => this.expanded.has(o) ? [o, ...this.pathChildren(o)] : [o]);
+  }
+
+  private clearScreen(): void { process.stdout.write("\x1b[2J\x1b[H"); }
+  private hideCursor(): void { process.stdout.write("\x1b[?25l"); }
+  private showCursor(): void { process.stdout.write("\x1b[?25h"); }
+
+  // 標記後同組是否仍有未標記的項目
+  private canMark(item: SelectableItem): boolean {
+    if (item.group === undefined) return true;
+    return this.rootItems.some(o => o.group === item.group && o !== item && !this.marked.has(o));
+  }
+
+  // a 的路徑 p 是否包含在 b 的路徑 q 之內；相同路徑只在 b 是 a 所屬的快取任務時成立
+  private static contains(q: string, p: string, outer: SelectableItem, inner: SelectableItem): boolean {
+    return p.startsWith(`${q}/`) || (p === q && !!outer.cleanup && !inner.cleanup);
+  }
+
+  // 項目的所有路徑都位於另一個已標記項目之內
+  private isCovered(item: SelectableItem): boolean {
+    const own = itemPaths(item);
+    if (own.length === 0) return false;
+    return own.every(p => [...this.marked].some(m =>
+      m !== item && itemPaths(m).some(q => InteractiveSelector.contains(q, p, m, item))));
+  }
+
+  // 實際要刪除的項目：已被上層標記涵蓋的子項目不重複計算
+  private get effectiveMarks(): SelectableItem[] {
+    return [...this.marked].filter(m => !this.isCovered(m));
+  }
+
+  private hasMarkedDescendant(item: SelectableItem): boolean {
+    const own = itemPaths(item);
+    return [...this.marked].some(m =>
+      m !== item && itemPaths(m).some(p => own.some(q => InteractiveSelector.contains(q, p, item, m))));
+  }
+
+  private getConfidenceIcon(c?: string): string {
+    return c === "high" ? "🔴" : c === "medium" ? "🟡" : c === "low" ? "⚪" : "📦";
+  }
+
+  private getConfidenceColor(c?: string): string {
+    return c === "high" ? colors.red : c === "medium" ? colors.yellow : colors.dim;
+  }
+
+  private render(): void {
+    const filtered = this.filteredItems;
+    const marks = this.effectiveMarks;
+    const markedSize = marks.reduce((sum, o) => sum + o.size, 0);
+    const { level } = this;
+    const columns = Math.max(60, process.stdout.columns || 80);
+    const rows = Math.max(20, process.stdout.rows || 24);
+
+    const header: string[] = [];
+    header.push("═".repeat(columns));
+    header.push(`${colors.bright}${colors.cyan}  ${this.title}${colors.reset}`);
+    header.push("═".repeat(columns));
+    if (this.levels.length > 1) {
+      header.push(`  ${colors.dim}📂 ${this.levels.map(l => l.title).join(" › ")}${colors.reset}`);
+    }
+    header.push("");
+    header.push(`  ${colors.dim}${t("selector.helpNav")}${colors.reset}`);
+    header.push(`  ${colors.dim}${t("selector.helpActions")}${colors.reset}`);
+    header.push(`  ${colors.dim}${t(this.settings.dryRun ? "selector.helpPreview" : "selector.helpDelete")}${colors.reset}`);
+
+    if (this.levels.length === 1 && this.rootItems.some(i => i.confidence)) {
+      header.push(`  ${colors.dim}${t("selector.helpConfidence")}${colors.reset}`);
+    }
+
+    const filterText = t(this.filterConfidence === "all" ? "selector.filterAll" :
+      this.filterConfidence === "high" ? "selector.filterHigh" : this.filterConfidence === "medium" ? "selector.filterMedium" : "selector.filterLow");
+    header.push("");
+    header.push(`  ${t("selector.status", {
+      count: `${colors.yellow}${marks.length}${colors.reset}`,
+      size: `${colors.yellow}${formatSize(markedSize)}${colors.reset}`,
+      filter: filterText,
+      sort: SORT_LABELS[this.sortMode],
+      removal: REMOVAL_LABELS[this.settings.removal],
+    })}${this.settings.maxAgeDays !== undefined ? t("selector.maxAge", { days: this.settings.maxAgeDays }) : ""}`);
+    if (this.searching || level.query) {
+      const cursor = this.searching ? `${colors.cyan}▏${colors.reset}` : "";
+      const count = { n: filtered.length, total: level.items.length };
+      const hint = `${colors.dim}${t(this.searching ? "selector.searchEditing" : "selector.searchCount", count)}${colors.reset}`;
+      header.push(`  ${t("selector.search", { query: level.query, cursor, hint })}`);
+    }
+    if (this.notice) {
+      header.push(`  ${colors.yellow}${this.notice}${colors.reset}`);
+      this.notice = null;
+    }
+    header.push("");
+    header.push("─".repeat(columns));
+
+    // 詳細資訊：最多佔畫面三分之一，其餘高度留給列表
+    const detail: string[] = [];
+    const sel = filtered[level.selectedIndex];
+    if (sel) {
+      detail.push("");
+      detail.push(`${colors.bright}${sel.name}${colors.reset}`);
+      if (sel.path) detail.push(`  ${t("selector.path", { value: `${colors.cyan}${sel.path}${colors.reset}` })}`);
+      sel.commands?.forEach(c => detail.push(`  ${t("selector.command", { value: `${colors.cyan}${c}${colors.reset}` })}`));
+      if (sel.action) detail.push(`  ${colors.cyan}${t("selector.actionDetail")}${colors.reset}`);
+      else detail.push(`  ${t("selector.size", { value: `${colors.yellow}${formatSize(sel.size)}${colors.reset}` })}`);
+      if (sel.modifiedAt !== undefined) {
+        detail.push(`  ${t("selector.times", { modified: formatDate(sel.modifiedAt), accessed: formatDate(sel.accessedAt ?? 0) })}`);
+      }
+      if (sel.detail) detail.push(`  ${colors.dim}${sel.detail}${colors.reset}`);
+      if (sel.needsSudo && !this.hasSudo) detail.push(`  ${colors.yellow}${t("selector.needsSudo")}${colors.reset}`);
+      if (sel.score !== undefined) {
+        const colorFn = this.getConfidenceColor(sel.confidence);
+        detail.push(`  ${t("selector.score", { score: `${colorFn}${sel.score}${colors.reset}` })}`);
+        for (const e of sel.evidence ?? []) {
+          const weight = `${e.weight > 0 ? "+" : ""}${e.weight}`.padStart(4);
+          detail.push(`    ${e.weight < 0 ? colors.green : colors.red}${weight}${colors.reset} ${colors.dim}${e.text}${colors.reset}`);
+        }
+      }
+      if (sel.cleanup) {
+        const { paths, sizes, task, kept } = sel.cleanup;
+        if (kept) {
+          detail.push(`  ${colors.green}${t("selector.kept", { n: task.keepLatest ?? 0 })}${colors.reset}`);
+          kept.slice(0, 5).forEach(p => detail.push(`    ${colors.dim}${p}${colors.reset}`));
+          if (kept.length > 5) detail.push(`    ${colors.dim}${t("selector.morePaths", { n: kept.length - 5 })}${colors.reset}`);
+          detail.push(`  ${colors.red}${t("selector.removed")}${colors.reset}`);
+        }
+        paths.slice(0, 5).forEach((p, i) => detail.push(`    ${colors.dim}${p} (${formatSize(sizes[i])})${colors.reset}`));
+        if (paths.length > 5) detail.push(`    ${colors.dim}${t("selector.morePaths", { n: paths.length - 5 })}${colors.reset}`);
+        task.commands?.forEach(c => detail.push(`    ${colors.dim}$ ${c}${colors.reset}`));
+      }
+    }
+    const maxDetail = Math.floor(rows / 3);
+    if (detail.length > maxDetail) detail.splice(maxDetail - 1, detail.length, `  ${colors.dim}...${colors.reset}`);
+
+    // 表頭、分隔線、捲動指示與詳細資訊以外的高度都給列表
+    const maxVisible = Math.max(3, rows - header.length - detail.length - 4);
+    this.pageSize = maxVisible;
+    if (level.selectedIndex < level.scrollOffset) level.scrollOffset = level.selectedIndex;
+    else if (level.selectedIndex >= level.scrollOffset + maxVisible) level.scrollOffset = level.selectedIndex - maxVisible + 1;
+    level.scrollOffset = Math.max(0, Math.min(level.scrollOffset, filtered.length - maxVisible));
+
+    const start = level.scrollOffset;
+    const end = Math.min(filtered.length, start + maxVisible);
+    // 游標、標記、圖示、分類與大小欄位固定佔 34 欄，名稱使用剩下的寬度
+    const nameWidth = Math.max(20, columns - 34);
+    const list: string[] = [];
+
+    if (filtered.length === 0) {
+      list.push("");
+      list.push(`  ${colors.dim}${t("selector.empty")}${colors.reset}`);
+    }
+
+    for (let i = start; i < end; i++) {
+      const item = filtered[i];
+      const isSelected = i === level.selectedIndex;
+
+      // [✗] 已標記、[•] 由上層標記涵蓋、[-] 內部有標記的項目
+      const marker = this.isCovered(item) ? `${colors.red}[•]${colors.reset}`
+        : this.marked.has(item) ? `${colors.red}[✗]${colors.reset}`
+        : this.hasMarkedDescendant(item) ? `${colors.yellow}[-]${colors.reset}`
+        : "[ ]";
+      const cursor = isSelected ? `${colors.cyan}▶${colors.reset}` : " ";
+      const icon = item.action ? "⚡" : this.getConfidenceIcon(item.confidence);
+      const colorFn = this.getConfidenceColor(item.confidence);
+      // 快取任務顯示展開狀態，其下的路徑以樹狀縮排
+      const parent = this.parentOf.get(item);
+      const siblings = parent && this.children.get(parent);
+      const branch = siblings ? (siblings[siblings.length - 1] === item ? "  └ " : "  ├ ")
+        : item.cleanup && item.cleanup.paths.length > 0 ? (this.expanded.has(item) ? "▾ " : "▸ ")
+        : "";
+      const width = nameWidth - branch.length;
+      const name = branch + (item.name.length > width ? `${item.name.substring(0, width - 1)}…` : item.name).padEnd(width);
+      const cat = (item.category || "").substring(0, 10).padEnd(10);
+      const size = item.action ? `${colors.cyan}${padDisplay(t("selector.actionSize"), 10, "start")}` : `${colors.yellow}${formatSize(item.size).padStart(10)}`;
+      const line = ` ${cursor} ${marker} ${icon} ${colorFn}${name}${colors.reset} ${colors.dim}${cat}${colors.reset} ${size}${colors.reset}`;
+
+      list.push(isSelected ? `${colors.bgBlue}${line}${colors.reset}` : line);
+    }
+
+    if (filtered.length > maxVisible) {
+      list.push("");
+      list.push(`  ${colors.dim}▲▼ ${start + 1}-${end} / ${filtered.length}${colors.reset}`);
+    }
+
+    this.clearScreen();
+    process.stdout.write([...header, ...list, "", "─".repeat(columns), ...detail].join("\n") + "\n");
+  }
+
+  // 快取任務底下的各個路徑，沿用掃描時量得的大小，可單獨標記
+  private pathChildren(item: SelectableItem): SelectableItem[] {
+    const cached = this.children.get(item);
+    if (cached || !item.cleanup) return cached ?? [];
+
+    const { paths, sizes, times } = item.cleanup;
+    const children: SelectableItem[] = paths
+      .map((p, i) => ({ name: basename(p), path: p, size: sizes[i], category: t("selector.pathCategory"), needsSudo: item.needsSudo, ...times[i] }))
+      .sort((a, b) => b.size - a.size);
+    children.forEach(c => this.parentOf.set(c, item));
+    this.children.set(item, children);
+    return children;
+  }
+
+  // 展開資料夾：列出其內容並依大小排序
+  private async loadChildren(item: SelectableItem): Promise<SelectableItem[] | null> {
+    const cached = this.children.get(item);
+    if (cached) return cached;
+
+    const [path] = itemPaths(item);
+    if (!path) return null;
+    try {
+      if (!(await lstat(path)).isDirectory()) return null;
+    } catch {
+      return null;
+    }
+
+    const progress = new ProgressDisplay();
+    progress.start(t("selector.measuring", { name: basename(path) }));
+    const calc = new SizeCalculator();
+    const entries = await listDir(path);
+    const measured = await runPool(entries, DEFAULT_SCAN_JOBS, async e => {
+      const child = join(path, e.name);
+      const r = await calc.measure(child);
+      return {
+        name: e.isDirectory() ? `${e.name}/` : e.name,
+        path: child,
+        size: r.allocated,
+        category: t(e.isDirectory() ? "selector.folder" : "selector.file"),
+        modifiedAt: r.modifiedAt,
+        accessedAt: r.accessedAt,
+      };
+    });
+    progress.stop();
+    const children = measured.filter((c): c is NonNullable<typeof c> => !!c);
+
+    children.sort((a, b) => b.size - a.size);
+    this.children.set(item, children);
+    return children;
+  }
+
+  private async open(item: SelectableItem): Promise<void> {
+    if (item.target || item.commands) {
+      this.notice = t("selector.commandOnly");
+      return;
+    }
+    // 快取任務在列表中就地展開成路徑，不進入下一層
+    if (item.cleanup) {
+      if (this.expanded.has(item)) this.expanded.delete(item);
+      else if (item.cleanup.paths.length > 0) this.expanded.add(item);
+      return;
+    }
+    const children = await this.loadChildren(item);
+    if (!children) this.notice = t("selector.notFolder");
+    else if (children.length === 0) this.notice = t("selector.emptyFolder");
+    else this.levels.push({ title: item.name.replace(/\/$/, ""), items: children, selectedIndex: 0, scrollOffset: 0, query: "" });
+  }
 
   private async confirmDelete(): Promise<boolean> {
-    if (this.deleteQueue.size === 0) {
-      console.log(`\n${colors.yellow}沒有標記要刪除的項目${colors.reset}`);
+    const items = this.effectiveMarks;
+    if (items.length === 0) {
+      console.log(`\n${colors.yellow}${t("selector.nothingMarked")}${colors.reset}`);
       await this.waitForKey();
       return false;
     }
 
-    this.clearScreen();
-    console.log("═".repeat(80));
-    console.log(`${colors.bright}${colors.red}  ⚠️  確認刪除${colors.reset}`);
+    this.clearScreen();
+    console.log("═".repeat(80));
+    console.log(`${colors.bright}${colors.red}  ${t("selector.confirmTitle")}${colors.reset}`);
+    console.log("═".repeat(80));
+
+    const totalSize = items.reduce((sum, o) => sum + o.size, 0);
+
+    console.log(`\n${t("selector.aboutToDelete", { n: items.length })}\n`);
+    items.slice(0, 10).forEach(item => {
+      console.log(`  ${colors.red}✗${colors.reset} ${item.name}`);
+      const extra = item.cleanup && item.cleanup.paths.length > 1 ? t("selector.andPaths", { n: item.cleanup.paths.length }) : "";
+      const size = item.action ? t("selector.actionSize") : formatSize(item.size);
+      console.log(`    ${colors.dim}${item.path || item.commands?.join("; ")}${extra} (${size})${colors.reset}`);
+    });
+    if (items.length > 10) console.log(`  ${colors.dim}${t("selector.moreItems", { n: items.length - 10 })}${colors.reset}`);
+
+    console.log(`\n${colors.yellow}${t("selector.total", { size: formatSize(totalSize) })}${colors.reset}`);
+    if (this.settings.removal === "delete") {
+      console.log(`\n${colors.red}${colors.bright}${t("common.irreversible")}${colors.reset}`);
+    } else {
+      console.log(`\n${colors.green}${t("selector.movedTo", { target: REMOVAL_LABELS[this.settings.removal] })}${colors.reset}`);
+    }
+    if (!this.hasSudo) {
+      console.log(`${colors.yellow}${t("selector.noSudo")}${colors.reset}`);
+    }
+    console.log(`\n${t("common.confirmPrompt", { key: `${colors.green}y${colors.reset}` })}`);
+
+    return new Promise(resolve => {
+      process.stdin.setRawMode(true);
+      process.stdin.resume();
+      process.stdin.once("data", (key) => {
+        process.stdin.setRawMode(false);
+        resolve(key.toString().toLowerCase() === "y");
+      });
+    });
+  }
+
+  private async executeDelete(): Promise<void> {
+    await deleteItems(this.effectiveMarks, this.hasSudo, { removal: this.settings.removal, exclusions: this.settings.exclusions });
+    await this.waitForKey();
+  }
+
+  // 試執行：顯示刪除計畫後返回列表
+  private async previewPlan(): Promise<void> {
+    const items = this.effectiveMarks;
+    if (items.length === 0) {
+      console.log(`\n${colors.yellow}${t("selector.nothingMarked")}${colors.reset}`);
+    } else {
+      this.clearScreen();
+      printPlan(items.flatMap(i => planItem(i, this.hasSudo, this.settings.removal, this.settings.exclusions)));
+    }
+    await this.waitForKey();
+  }
+
+  private waitForKey(): Promise<void> {
+    console.log(`\n${colors.dim}${t("common.pressAnyKey")}${colors.reset}`);
+    return new Promise(resolve => {
+      process.stdin.setRawMode(true);
+      process.stdin.resume();
+      process.stdin.once("data", () => { process.stdin.setRawMode(false); resolve(); });
+    });
+  }
+
+  async start(): Promise<void> {
+    if (this.rootItems.length === 0) {
+      console.log(`\n${colors.green}${t("selector.noItems")}${colors.reset}`);
+      return;
+    }
+
+    this.hideCursor();
+    process.stdin.setRawMode(true);
+    process.stdin.resume();
+    process.stdin.setEncoding("utf8");
+    this.render();
+
+    // 終端機大小改變時依新的行列數重繪
+    const onResize = () => { if (!this.paused && !this.busy) this.render(); };
+    process.on("SIGWINCH", onResize);
+
+    return new Promise(resolve => {
+      const finish = () => {
+        process.removeListener("SIGWINCH", onResize);
+        this.showCursor();
+        resolve();
+      };
+
+      const handleKey = async (key: Buffer) => {
+        // 展開資料夾計算大小時忽略按鍵
+        if (this.busy) return;
+        const k = key.toString();
+        const filtered = this.filteredItems;
+        const { level } = this;
+
+        if (this.searching) {
+          if (k === "\r" || k === "\n") this.searching = false;
+          else if (k === "\x1b") { level.query = ""; this.searching = false; }
+          else if (k === "\x7f" || k === "\b") level.query = level.query.slice(0, -1);
+          else if (!/[\x00-\x1f\x7f]/.test(k)) level.query += k;
+          level.selectedIndex = 0; level.scrollOffset = 0;
+          this.render();
+          return;
+        }
+
+        // Esc 先清除搜尋，再返回上一層，最後才退出
+        if (k === "\x1b" && level.query) {
+          level.query = "";
+          level.selectedIndex = 0; level.scrollOffset = 0;
+          this.render();
+          return;
+        }
+
+        if (k === "q" || k === "Q" || (k === "\x1b" && this.levels.length === 1)) {
+          process.stdin.setRawMode(false);
+          process.stdin.removeListener("data", handleKey);
+          this.clearScreen();
+          finish();
+          return;
+        }
+
+        const last = Math.max(0, filtered.length - 1);
+        if (k === "\x1b[A" || k === "k") {
+          level.selectedIndex = Math.max(0, level.selectedIndex - 1);
+          this.render();
+        } else if (k === "\x1b[B" || k === "j") {
+          level.selectedIndex = Math.min(last, level.selectedIndex + 1);
+          this.render();
+        } else if (k === "\x1b[5~") {
+          level.selectedIndex = Math.max(0, level.selectedIndex - this.pageSize);
+          this.render();
+        } else if (k === "\x1b[6~") {
+          level.selectedIndex = Math.min(last, level.selectedIndex + this.pageSize);
+          this.render();
+        } else if (k === "\x1b[H" || k === "\x1b[1~" || k === "\x1bOH" || k === "g") {
+          level.selectedIndex = 0;
+          this.render();
+        } else if (k === "\x1b[F" || k === "\x1b[4~" || k === "\x1bOF" || k === "G") {
+          level.selectedIndex = last;
+          this.render();
+        } else if (k === "/") {
+          this.searching = true;
+          this.render();
+        } else if (k === "s" || k === "S") {
+          // 切換排序時游標停在同一個項目上
+          const current = filtered[level.selectedIndex];
+          const modes = Object.keys(SORT_LABELS) as SortMode[];
+          this.sortMode = modes[(modes.indexOf(this.sortMode) + 1) % modes.length];
+          level.selectedIndex = Math.max(0, this.filteredItems.indexOf(current));
+          this.render();
+        } else if (k === "\x1b[C" || k === "l" || k === "\r" || k === "\n") {
+          const item = filtered[level.selectedIndex];
+          if (item) {
+            this.busy = true;
+            try {
+              await this.open(item);
+            } finally {
+              this.busy = false;
+            }
+            // Enter 以前用來刪除；無法展開又有標記時提示改按 d
+            if (this.notice && (k === "\r" || k === "\n") && this.marked.size > 0) this.notice = t("selector.deleteHint");
+          }
+          this.render();
+        } else if (k === "\x1b[D" || k === "h" || k === "\x7f" || k === "\x1b") {
+          // 先收合游標所在的群組，沒有展開的群組時才返回上一層
+          const item = filtered[level.selectedIndex];
+          const group = item && (this.expanded.has(item) ? item : this.parentOf.get(item));
+          if (group && this.expanded.has(group)) {
+            this.expanded.delete(group);
+            level.selectedIndex = Math.max(0, this.filteredItems.indexOf(group));
+          } else if (this.levels.length > 1) {
+            this.levels.pop();
+          }
+          this.render();
+        } else if (k === " ") {
+          const item = filtered[level.selectedIndex];
+          if (item) {
+            if (this.marked.has(item)) this.marked.delete(item);
+            else if (this.isCovered(item)) this.notice = t("selector.covered");
+            else if (this.canMark(item)) this.marked.add(item);
+            else this.notice = t("selector.keepOne");
+          }
+          this.render();
+        } else if (k === "d" || k === "D") {
+          process.stdin.setRawMode(false);
+          process.stdin.removeListener("data", handleKey);
+          this.paused = true;
+          if (this.settings.dryRun) {
+            await this.previewPlan();
+          } else if (await this.confirmDelete()) {
+            await this.executeDelete();
+            finish();
+            return;
+          }
+          this.paused = false;
+          process.stdin.setRawMode(true);
+          process.stdin.on("data", handleKey);
+          this.render();
+        } else if (k === "a" || k === "A") {
+          // 重複檔案的保留項與展開群組中的路徑不參與全選
+          const selectable = filtered.filter(o => !o.keeper && !this.parentOf.has(o));
+          const allSel = selectable.every(o => this.marked.has(o));
+          selectable.forEach(o => {
+            if (allSel) this.marked.delete(o);
+            else if (this.canMark(o)) this.marked.add(o);
+          });
+          this.render();
+        } else if (k === "t" || k === "T") {
+          const modes: RemovalMode[] = ["delete", "quarantine", "trash"];
+          this.settings.removal = modes[(modes.indexOf(this.settings.removal) + 1) % modes.length];
+          this.render();
+        } else if (this.levels.length === 1 && k === "1") {
+          this.filterConfidence = this.filterConfidence === "high" ? "all" : "high";
+          level.selectedIndex = 0; level.scrollOffset = 0;
+          this.render();
+        } else if (this.levels.length === 1 && k === "2") {
+          this.filterConfidence = this.filterConfidence === "medium" ? "all" : "medium";
+          level.selectedIndex = 0; level.scrollOffset = 0;
+          this.render();
+        } else if (this.levels.length === 1 && k === "3") {
+          this.filterConfidence = this.filterConfidence === "low" ? "all" : "low";
+          level.selectedIndex = 0; level.scrollOffset = 0;
+          this.render();
+        } else if (this.levels.length === 1 && k === "0") {
+          this.filterConfidence = "all";
+          level.selectedIndex = 0; level.scrollOffset = 0;
+          this.render();
+        }
+      };
+
+      process.stdin.on("data", handleKey);
+    });
+  }
+}
+
+// ============================================================================
+// 版本保留
+// ============================================================================
+
+// 名稱中第一個含小數點的版本號，例如 IntelliJIdea2023.2、17.0 (21A329)、gradle-8.5-bin、v20.11.0
+const VERSION_IN_NAME = /\d+(?:\.\d+)+/;
+
+interface VersionedEntry {
+  path: string;
+  // 父目錄加上版本號之前的名稱；同一組內只比較版本
+  product: string;
+  version: number[];
+}
+
+function parseVersionedEntry(path: string): VersionedEntry | null {
+  const name = basename(path);
+  const m = VERSION_IN_NAME.exec(name);
+  if (!m) return null;
+  const product = name.slice(0, m.index).replace(/[\s_-]*v?$/, "").toLowerCase();
+  return { path, product: `${dirname(path)}/${product}`, version: m[0].split(".").map(Number) };
+}
+
+function compareVersions(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const d = (a[i] ?? 0) - (b[i] ?? 0);
+    if (d !== 0) return d;
+  }
+  return 0;
+}
+
+// 依產品分組，每組保留最新的 keep 個版本（同一版本的多個目錄一併保留）；
+// 無法解析版本號的路徑一律保留
+function applyKeepLatest(paths: string[], keep: number): { removable: string[]; kept: string[] } {
+  const groups = new Map<string, VersionedEntry[]>();
+  const kept: string[] = [];
+  for (const p of paths) {
+    const entry = parseVersionedEntry(p);
+    if (!entry) {
+      kept.push(p);
+      continue;
+    }
+    if (!groups.has(entry.product)) groups.set(entry.product, []);
+    groups.get(entry.product)!.push(entry);
+  }
+
+  const removable: string[] = [];
+  for (const entries of groups.values()) {
+    entries.sort((a, b) => compareVersions(b.version, a.version));
+    const versions: number[][] = [];
+    for (const e of entries) {
+      if (!versions.some(v => compareVersions(v, e.version) === 0)) versions.push(e.version);
+      (versions.length <= keep ? kept : removable).push(e.path);
+    }
+  }
+  return { removable, kept };
+}
+
+// ============================================================================
+// 清理 Provider
+// ============================================================================
+
+// 每種可清理的資源由一個 provider 負責：discover 列出目標、size 計算大小、
+// describe 說明如何移除、clean 執行移除。內建任務與 Docker 皆以此介面實作，
+// 外掛則從 ~/.config/mac-clean-ts/plugins 或設定檔 plugins 列出的 npm 套件載入：
+//
+//   export default {
+//     name: "MySDK",
+//     description: "MySDK 快取",
+//     needsSudo: false,
+//     async discover(ctx) { return [{ id: "cache", name: "快取", path: "/opt/mysdk/cache" }]; },
+//   };
+//
+// 有路徑的目標預設以一般流程刪除（支援隔離區、垃圾桶與試執行）；
+// 實作 clean 的 provider 則由 clean 逐一移除每個目標。
+
+interface ProviderTarget {
+  id: string;
+  name: string;
+  path?: string;
+  // 已知的大小；未提供時以 size() 或路徑大小計算
+  size?: number;
+  category?: string;
+  // 依保留政策保留，只在明細中列出
+  keep?: boolean;
+  // provider 自用的資料，例如移除用的指令
+  data?: Record<string, unknown>;
+}
+
+interface TargetSize extends EntryTimes {
+  size: number;
+}
+
+interface ProviderContext {
+  exclusions: ExclusionRules;
+  options: ScanOptions;
+  // 回報被排除規則擋下的路徑
+  exclude(path: string, rule: string): void;
+  warn(message: string): void;
+  // 內建 provider 以訊息 key 回報警告
+  report(key: MessageKey, params?: MessageParams): void;
+}
+
+interface CleanupProvider {
+  name: string;
+  description: string;
+  enabled: boolean;
+  // 清理時需要管理員權限
+  needsSudo: boolean;
+  maxAgeDays?: number;
+  // 可由自動清理政策清理
+  autoSafe?: boolean;
+  discover(context: ProviderContext): Promise<ProviderTarget[]>;
+  size?(target: ProviderTarget, context: ProviderContext): Promise<TargetSize>;
+  describe(target: ProviderTarget): string;
+  clean?(target: ProviderTarget): Promise<void>;
+  // 殘留檔案掃描用的額外知識，合併至設定的 bundleMappings 與 residualLocations
+  bundleMappings?: Record<string, string>;
+  residualLocations?: ResidualLocation[];
+}
+
+// 內建與設定檔中的 CleanupTask：以 glob 展開路徑，並可套用 keepLatest 保留政策
+export class TaskProvider implements CleanupProvider {
+  readonly task: CleanupTask;
+
+  constructor(task: CleanupTask) {
+    this.task = task;
+  }
+
+  get name(): string { return this.task.name; }
+  get description(): string { return this.task.description; }
+  get enabled(): boolean { return this.task.enabled; }
+  get maxAgeDays(): number | undefined { return this.task.maxAgeDays; }
+  get autoSafe(): boolean { return this.task.autoSafe ?? false; }
+
+  get needsSudo(): boolean {
+    return this.task.paths.some(p => p.startsWith("/")) || (this.task.commands ?? []).some(c => c.startsWith("sudo "));
+  }
+
+  // 展開任務的所有路徑樣式；以 ! 開頭的樣式會從結果中移除完全符合的路徑
+  async discover(context: ProviderContext): Promise<ProviderTarget[]> {
+    const { task } = this;
+    const negations = task.paths.filter(p => p.startsWith("!")).map(p => globToRegExp(expandPath(p.slice(1))));
+    const matches: string[] = [];
+    for (const pattern of task.paths.filter(p => !p.startsWith("!"))) {
+      matches.push(...await expandGlobPattern(pattern));
+    }
+
+    const paths = collapseNested(matches).filter(p => {
+      if (negations.some(re => re.test(p))) return false;
+      const rule = context.exclusions.match(p);
+      if (rule) context.exclude(p, rule);
+      return !rule;
+    });
+
+    if (task.keepLatest === undefined) return paths.map(p => ({ id: p, name: basename(p), path: p }));
+    const { removable, kept } = applyKeepLatest(paths, task.keepLatest);
+    return [
+      ...removable.map(p => ({ id: p, name: basename(p), path: p })),
+      ...kept.map(p => ({ id: p, name: basename(p), path: p, keep: true })),
+    ];
+  }
+
+  describe(target: ProviderTarget): string {
+    return target.path ?? target.name;
+  }
+}
+
+const PLUGIN_DIR = join(homedir(), ".config", "mac-clean-ts", "plugins");
+const PLUGIN_EXTENSIONS = [".js", ".mjs", ".ts"];
+
+function isProvider(v: unknown): v is CleanupProvider {
+  if (typeof v !== "object" || v === null) return false;
+  const p = v as Partial<CleanupProvider>;
+  return typeof p.name === "string" && typeof p.discover === "function";
+}
+
+// 外掛可能是類別實例，以委派包裝而非展開，並補上選填欄位的預設值
+function normalizeProvider(p: CleanupProvider): CleanupProvider {
+  return {
+    name: p.name,
+    description: p.description ?? p.name,
+    enabled: p.enabled ?? true,
+    needsSudo: p.needsSudo ?? false,
+    maxAgeDays: p.maxAgeDays,
+    autoSafe: p.autoSafe ?? false,
+    discover: context => p.discover(context),
+    size: p.size ? (target, context) => p.size!(target, context) : undefined,
+    describe: target => p.describe?.(target) ?? target.path ?? target.name,
+    clean: p.clean ? target => p.clean!(target) : undefined,
+    bundleMappings: p.bundleMappings,
+    residualLocations: p.residualLocations,
+  };
+}
+
+// 外掛模組以 default 匯出一個 provider 或 provider 陣列。
+// specs 中以 .、/ 或 ~ 開頭者為路徑（相對路徑以設定檔所在目錄為準），其餘視為 npm 套件名稱，
+// 同樣從設定檔所在目錄解析。載入失敗的外掛記入 warnings 後略過，不中斷其他指令
+async function loadPlugins(specs: string[], configFile: string | null, warnings: Message[]): Promise<CleanupProvider[]> {
+  const base = configFile ? dirname(configFile) : process.cwd();
+  const modules = specs.map(s => ({ spec: s, path: /^[./~]/.test(s) ? resolve(base, expandPath(s)) : null }));
+  for (const e of await listDir(PLUGIN_DIR)) {
+    if (e.isFile() && PLUGIN_EXTENSIONS.some(ext => e.name.endsWith(ext))) modules.push({ spec: e.name, path: join(PLUGIN_DIR, e.name) });
+  }
+
+  const providers: CleanupProvider[] = [];
+  for (const { spec, path } of modules) {
+    let mod: { default?: unknown };
+    try {
+      mod = await import(path ?? Bun.resolveSync(spec, base));
+    } catch (err) {
+      warnings.push(translated("plugin.loadFailed", { spec, error: (err as Error).message }));
+      continue;
+    }
+    const exported = Array.isArray(mod.default) ? mod.default : [mod.default];
+    if (!exported.every(isProvider)) {
+      warnings.push(translated("plugin.badExport", { spec }));
+      continue;
+    }
+    for (const p of exported) {
+      if (CLEANUP_TASKS.some(b => b.name.toLowerCase() === p.name.toLowerCase())) {
+        warnings.push(translated("plugin.clash", { spec, name: p.name }));
+      } else if (providers.some(o => o.name.toLowerCase() === p.name.toLowerCase())) {
+        warnings.push(translated("plugin.duplicate", { spec, name: p.name }));
+      } else {
+        providers.push(normalizeProvider(p));
+      }
+    }
+  }
+  return providers;
+}
+
+// ============================================================================
+// Docker 資源
+// ============================================================================
+
+// 直接刪除 Docker 的 VM 目錄會一併清掉所有映像檔、容器與 volume，
+// 因此改由 docker CLI 列出個別資源，並以對應的 rm / prune 指令移除
+
+type DockerResourceKind = "dangling-image" | "unused-image" | "stopped-container" | "unused-volume" | "build-cache";
+
+const DOCKER_KIND_LABELS: Record<DockerResourceKind, string> = {
+  "dangling-image": t("docker.danglingImage"),
+  "unused-image": t("docker.unusedImage"),
+  "stopped-container": t("docker.stoppedContainer"),
+  "unused-volume": t("docker.unusedVolume"),
+  "build-cache": t("docker.buildCache"),
+};
+
+const DOCKER_TIMEOUT_MS = 30_000;
+// 移除與清除建置快取可能比查詢久，但 daemon 沒有回應時仍不能無限等待
+const DOCKER_CLEAN_TIMEOUT_MS = 10 * 60_000;
+const STOPPED_CONTAINER_STATES = ["created", "exited", "dead"];
+
+const execFileAsync = promisify(execFile);
+
+// docker 以十進位單位輸出大小（例如 1.23GB、512kB）；容器大小可能附帶 "(virtual …)"
+const DOCKER_SIZE_UNITS: Record<string, number> = {
+  b: 1, kb: 1e3, mb: 1e6, gb: 1e9, tb: 1e12,
+  kib: 1024, mib: 1024 ** 2, gib: 1024 ** 3, tib: 1024 ** 4,
+};
+
+function parseDockerSize(text: unknown): number {
+  const m = /^\s*([\d.]+)\s*([a-z]+)/i.exec(String(text ?? ""));
+  if (!m) return 0;
+  return Math.round(parseFloat(m[1]) * (DOCKER_SIZE_UNITS[m[2].toLowerCase()] ?? 0));
+}
+
+function shortDockerId(id: unknown): string {
+  return String(id ?? "").replace(/^sha256:/, "").slice(0, 12);
+}
+
+type DockerRecord = Record<string, unknown>;
+
+// --format "{{json .}}" 的輸出：每行一個 JSON 物件
+function parseJsonLines(text: string): DockerRecord[] {
+  return text.split("\n").filter(l => l.trim()).map(l => JSON.parse(l) as DockerRecord);
+}
+
+// args 為清理時交給 docker 的參數，不經過 shell
+function dockerTarget(kind: DockerResourceKind, id: string, name: string, size: number, args: string[]): ProviderTarget {
+  return { id, name, size, category: DOCKER_KIND_LABELS[kind], data: { kind, args } };
+}
+
+export class DockerProvider implements CleanupProvider {
+  readonly needsSudo = false;
+  private task: CleanupTask;
+
+  constructor(task: CleanupTask) {
+    this.task = task;
+  }
+
+  get name(): string { return this.task.name; }
+  get description(): string { return this.task.description; }
+  get enabled(): boolean { return this.task.enabled; }
+
+  // 沒有安裝 docker 時回傳 null 且不產生警告；daemon 未啟動等錯誤則記錄警告
+  private async docker(args: string[], context: ProviderContext): Promise<string | null> {
+    try {
+      const { stdout } = await execFileAsync("docker", args, {
+        encoding: "utf-8",
+        timeout: DOCKER_TIMEOUT_MS,
+        maxBuffer: 64 * 1024 * 1024,
+        signal: context.options.signal,
+      });
+      return stdout;
+    } catch (err) {
+      const e = err as NodeJS.ErrnoException & { stderr?: string };
+      if (e.code !== "ENOENT" && e.code !== "ABORT_ERR") {
+        const reason = e.stderr?.trim().split("\n")[0] || e.message;
+        context.report("docker.commandFailed", { command: args.slice(0, 2).join(" "), reason });
+      }
+      return null;
+    }
+  }
+
+  async discover(context: ProviderContext): Promise<ProviderTarget[]> {
+    const df = await this.docker(["system", "df", "-v", "--format", "{{json .}}"], context);
+    if (df === null) return [];
+    let usage: { Images?: DockerRecord[]; Containers?: DockerRecord[]; Volumes?: DockerRecord[] };
+    try {
+      usage = JSON.parse(df);
+    } catch {
+      context.report("docker.unparsable");
+      return [];
+    }
+
+    const targets = [
+      ...await this.images(usage.Images ?? [], context),
+      ...this.containers(usage.Containers ?? []),
+      ...this.volumes(usage.Volumes ?? []),
+    ];
+    const cache = await this.buildCache(context);
+    if (cache) targets.push(cache);
+    return targets.sort((a, b) => (b.size ?? 0) - (a.size ?? 0));
+  }
+
+  // 沒有任何容器使用的映像檔；同一映像檔的多個標籤合併為一項，避免重複計算大小
+  private async images(records: DockerRecord[], context: ProviderContext): Promise<ProviderTarget[]> {
+    const listed = await this.docker(["image", "ls", "--filter", "dangling=true", "--format", "{{json .}}"], context);
+    const dangling = new Set(parseJsonLines(listed ?? "").map(i => shortDockerId(i.ID)));
+
+    const byId = new Map<string, { refs: string[]; size: number }>();
+    for (const img of records) {
+      if (Number(img.Containers ?? 0) > 0) continue;
+      const id = shortDockerId(img.ID);
+      const tagged = img.Repository !== "<none>" && img.Tag !== "<none>";
+      const entry = byId.get(id) ?? { refs: [], size: parseDockerSize(img.UniqueSize ?? img.Size) };
+      if (tagged) entry.refs.push(`${img.Repository}:${img.Tag}`);
+      byId.set(id, entry);
+    }
+
+    return [...byId].map(([id, { refs, size }]) => {
+      const isDangling = dangling.has(id) || refs.length === 0;
+      return isDangling
+        ? dockerTarget("dangling-image", id, `<none> (${id})`, size, ["image", "rm", id])
+        : dockerTarget("unused-image", id, refs.join(", "), size, ["image", "rm", ...refs]);
+    });
+  }
+
+  private containers(records: DockerRecord[]): ProviderTarget[] {
+    return records
+      .filter(c => STOPPED_CONTAINER_STATES.includes(String(c.State ?? "").toLowerCase()))
+      .map(c => {
+        const id = shortDockerId(c.ID);
+        return dockerTarget("stopped-container", id, `${c.Names} (${c.Image})`, parseDockerSize(c.Size), ["container", "rm", id]);
+      });
+  }
+
+  private volumes(records: DockerRecord[]): ProviderTarget[] {
+    return records
+      .filter(v => Number(v.Links ?? 0) === 0)
+      .map(v => dockerTarget("unused-volume", String(v.Name), String(v.Name), parseDockerSize(v.Size), ["volume", "rm", String(v.Name)]));
+  }
+
+  // builder du 只提供文字輸出，取其中的 Reclaimable 總量；此總量包含所有未使用的快取，
+  // 不只 dangling 的部分，因此以 --all 清除，回報的釋放空間才會相符
+  private async buildCache(context: ProviderContext): Promise<ProviderTarget | null> {
+    const du = await this.docker(["builder", "du"], context);
+    const m = /^Reclaimable:\s*(\S+)/m.exec(du ?? "");
+    const size = m ? parseDockerSize(m[1]) : 0;
+    if (size === 0) return null;
+    return dockerTarget("build-cache", "build-cache", t("docker.buildCacheName"), size, ["builder", "prune", "--all", "-f"]);
+  }
+
+  // 只用於顯示
+  describe(target: ProviderTarget): string {
+    return ["docker", ...(target.data?.args as string[])].join(" ");
+  }
+
+  async clean(target: ProviderTarget): Promise<void> {
+    await execFileAsync("docker", target.data?.args as string[], { encoding: "utf-8", timeout: DOCKER_CLEAN_TIMEOUT_MS });
+  }
+}
+
+function isPluginProvider(p: CleanupProvider): boolean {
+  return !(p instanceof TaskProvider || p instanceof DockerProvider);
+}
+
+// 設定中的任務轉為 provider；provider 欄位指定的任務由對應的實作處理
+function taskToProvider(task: CleanupTask): CleanupProvider {
+  return task.provider === "docker" ? new DockerProvider(task) : new TaskProvider(task);
+}
+
+// ============================================================================
+// 快取清理掃描器
+// ============================================================================
+
+class CleanupScanner {
+  private sizes = new SizeCalculator();
+  private exclusions: ExclusionRules;
+  private options: ScanOptions;
+  private providerWarnings: Message[] = [];
+  excluded: ExcludedEntry[] = [];
+  // 掃描被 Ctrl-C 中止，結果只包含已完成的任務
+  cancelled = false;
+
+  constructor(exclusions: ExclusionRules, options: ScanOptions = {}) {
+    this.exclusions = exclusions;
+    this.options = options;
+  }
+
+  async scan(providers: CleanupProvider[]): Promise<CleanupItem[]> {
+    if (!this.options.quiet) {
+      console.log(`\n${colors.bright}${colors.cyan}════════════════════════════════════════════════════════════════════════════════${colors.reset}`);
+      console.log(`${colors.bright}${colors.cyan}  ${t("cache.scanTitle")}${colors.reset}`);
+      console.log(`${colors.bright}${colors.cyan}════════════════════════════════════════════════════════════════════════════════${colors.reset}\n`);
+    }
+
+    const progress = new ScanProgress(t("cache.progress"), providers.length, this.options.quiet);
+    const interrupt = interceptInterrupt(this.options.signal);
+    const options = { ...this.options, signal: interrupt.signal };
+
+    let items: CleanupItem[];
+    progress.start();
+    try {
+      const results = await runPool(providers, this.options.concurrency ?? DEFAULT_SCAN_JOBS, async provider => {
+        const job = progress.begin(provider.name);
+        const item = await this.scanProvider(provider, options);
+        progress.finish(job, item?.totalSize ?? 0);
+        if (item) this.options.onItem?.(item);
+        return item;
+      }, interrupt.signal);
+      this.cancelled = interrupt.signal.aborted;
+      items = results.filter((i): i is CleanupItem => !!i);
+    } finally {
+      progress.stop();
+      interrupt.dispose();
+    }
+
+    // 只記錄完整、且以相同方式計算大小的掃描，各次結果才能比較成長
+    if (!this.cancelled && this.options.maxAgeDays === undefined && !this.options.apparentSize) {
+      await RunHistory.append(cacheScanRecord(providers, items));
+    }
+    return items;
+  }
+
+  // 沒有 clean 的 provider，其目標路徑併入同一個項目以一般流程刪除；
+  // 有 clean 的 provider，每個目標各自保留，清理時交給 provider
+  private async scanProvider(provider: CleanupProvider, options: ScanOptions): Promise<CleanupItem | null> {
+    const context: ProviderContext = {
+      exclusions: this.exclusions,
+      options,
+      exclude: (path, rule) => this.excluded.push({ path, rule, task: provider.name }),
+      warn: message => this.providerWarnings.push(translated("provider.warning", { provider: provider.name, message })),
+      report: (key, params) => this.providerWarnings.push({
+        key,
+        params: { ...params, provider: provider.name },
+        text: t("provider.warning", { provider: provider.name, message: t(key, params) }),
+      }),
+    };
+
+    let discovered: ProviderTarget[];
+    try {
+      discovered = await provider.discover(context);
+    } catch (err) {
+      context.report("provider.discoverFailed", { error: (err as Error).message });
+      return null;
+    }
+
+    const paths: string[] = [];
+    const sizes: number[] = [];
+    const times: EntryTimes[] = [];
+    const kept: string[] = [];
+    const targets: ProviderTarget[] = [];
+    const maxAgeDays = options.maxAgeDays ?? provider.maxAgeDays;
+    let totalSize = 0;
+
+    for (const target of discovered) {
+      if (options.signal?.aborted) break;
+      if (target.keep) {
+        kept.push(target.path ?? target.name);
+        continue;
+      }
+      if (!provider.clean && !target.path) {
+        context.report("provider.noPath", { name: target.name });
+        continue;
+      }
+
+      let measured: TargetSize;
+      try {
+        measured = provider.size ? await provider.size(target, context)
+          : target.size !== undefined || !target.path ? { size: target.size ?? 0, modifiedAt: 0, accessedAt: 0 }
+          : await this.sizes.sizeFor(target.path, options);
+      } catch (err) {
+        context.report("provider.sizeFailed", { name: target.name, error: (err as Error).message });
+        continue;
+      }
+      // 沒有時間資訊的目標（例如 docker 資源）不套用天數門檻
+      if (maxAgeDays !== undefined && measured.modifiedAt > 0 && daysSinceUsed(measured) < maxAgeDays) continue;
+
+      if (provider.clean) {
+        targets.push({ ...target, size: measured.size });
+        totalSize += measured.size;
+      } else if (measured.size > 0) {
+        paths.push(target.path!);
+        sizes.push(measured.size);
+        times.push({ modifiedAt: measured.modifiedAt, accessedAt: measured.accessedAt });
+        totalSize += measured.size;
+      }
+    }
+
+    // 只有指令沒有路徑的任務（例如 DNS Cache）量不到大小，仍要列出才能執行指令
+    const commandOnly = maxAgeDays === undefined && provider instanceof TaskProvider && provider.task.paths.length === 0 && !!provider.task.commands?.length;
+    if (paths.length === 0 && targets.length === 0 && !commandOnly) return null;
+    // 指令會清掉整個快取而不論天數，有天數門檻時只刪除符合門檻的路徑
+    const task = provider instanceof TaskProvider
+      ? maxAgeDays === undefined ? provider.task : { ...provider.task, commands: undefined }
+      : { name: provider.name, description: provider.description, paths: [], enabled: provider.enabled };
+    return {
+      task,
+      provider,
+      paths,
+      sizes,
+      times,
+      totalSize,
+      kept: kept.length > 0 ? kept : undefined,
+      targets: provider.clean ? targets : undefined,
+    };
+  }
+
+  get warnings(): Message[] {
+    return [...this.sizes.warnings, ...this.providerWarnings];
+  }
+}
+
+// ============================================================================
+// 自動清理政策
+// ============================================================================
+
+// 無人值守時依家目錄所在磁碟的可用空間決定是否清理：只刪除標示 autoSafe 的任務中
+// 超過 minAgeDays 未使用的路徑，不執行任務指令，也永遠不會處理殘留檔案
+
+interface AutoCleanPolicy {
+  // 可用空間低於此值（GB）時才清理
+  minFreeGB: number;
+  // 清理到可用空間達到此值（GB）為止
+  targetFreeGB: number;
+  // 允許的任務，皆須標示 autoSafe；未指定時為所有已啟用的 autoSafe 任務
+  tasks?: string[];
+  minAgeDays: number;
+  // 單次執行最多刪除的大小（GB）
+  maxGBPerRun: number;
+  logFile: string;
+}
+
+const AUTO_CLEAN_DEFAULTS: AutoCleanPolicy = {
+  minFreeGB: 20,
+  targetFreeGB: 30,
+  minAgeDays: 7,
+  maxGBPerRun: 20,
+  logFile: "~/.local/share/mac-clean-ts/auto-clean.log",
+};
+
+const GB = 1024 ** 3;
+
+interface AutoCleanAction {
+  task: string;
+  path: string;
+  size: number;
+  // 試執行時為 planned
+  status: DeleteResult["status"] | "planned";
+  freed: number;
+  error?: string;
+  errorKey?: MessageKey;
+  errorParams?: MessageParams;
+}
+
+interface AutoCleanReport {
+  triggered: boolean;
+  freeBefore: number;
+  freeAfter: number;
+  actions: AutoCleanAction[];
+  freed: number;
+  stopReason: "enough-space" | "target-reached" | "max-per-run" | "no-candidates" | "cancelled";
+}
+
+const AUTO_STOP_LABELS: Record<AutoCleanReport["stopReason"], string> = {
+  "enough-space": t("auto.enoughSpace"),
+  "target-reached": t("auto.targetReached"),
+  "max-per-run": t("auto.maxPerRun"),
+  "no-candidates": t("auto.noCandidates"),
+  cancelled: t("auto.cancelled"),
+};
+
+async function freeSpace(path: string): Promise<number> {
+  const fs = await statfs(path);
+  return fs.bavail * fs.bsize;
+}
+
+// 政策允許的 provider；明確列出的任務即使停用也會執行，但一定要標示 autoSafe
+function autoCleanProviders(config: AppConfig): CleanupProvider[] {
+  const { tasks } = config.autoClean;
+  if (!tasks) return config.providers.filter(p => p.enabled && p.autoSafe);
+  return tasks.map(name => {
+    const provider = config.providers.find(p => p.name.toLowerCase() === name.toLowerCase());
+    if (!provider) throw new MessageError("auto.taskNotFound", { name });
+    if (!provider.autoSafe) throw new MessageError("auto.taskNotSafe", { name: provider.name });
+    return provider;
+  });
+}
+
+class AutoCleaner {
+  private config: AppConfig;
+  private hasSudo: boolean;
+  private dryRun: boolean;
+  private quiet: boolean;
+  private log: string[] = [];
+
+  constructor(config: AppConfig, options: { hasSudo: boolean; dryRun?: boolean; quiet?: boolean }) {
+    this.config = config;
+    this.hasSudo = options.hasSudo;
+    this.dryRun = options.dryRun ?? false;
+    this.quiet = options.quiet ?? false;
+  }
+
+  private note(line: string): void {
+    this.log.push(`${new Date().toISOString()} ${line}`);
+    if (!this.quiet) console.log(line);
+  }
+
+  async run(): Promise<AutoCleanReport> {
+    const policy = this.config.autoClean;
+    const providers = autoCleanProviders(this.config);
+    const home = homedir();
+    const freeBefore = await freeSpace(home);
+    const report: AutoCleanReport = { triggered: false, freeBefore, freeAfter: freeBefore, actions: [], freed: 0, stopReason: "enough-space" };
+
+    if (freeBefore >= policy.minFreeGB * GB) {
+      this.note(t("auto.notNeeded", { free: formatSize(freeBefore), min: policy.minFreeGB }));
+      await this.writeLog();
+      return report;
+    }
+
+    report.triggered = true;
+    this.note(t("auto.triggered", { free: formatSize(freeBefore), min: policy.minFreeGB, target: policy.targetFreeGB }) + (this.dryRun ? t("auto.dryRun") : ""));
+    this.note(t("auto.tasks", { tasks: providers.map(p => p.name).join(", ") || t("auto.none") }));
+
+    const scanner = new CleanupScanner(this.config.exclusions, { quiet: true });
+    const items = await scanner.scan(providers);
+    for (const w of scanner.warnings) this.note(t("auto.warning", { message: w.text }));
+
+    // 只取有時間資訊且超過 minAgeDays 的路徑，由最久未使用的開始清理
+    const candidates = items
+      .flatMap(i => i.paths.map((path, idx) => ({ task: i.task.name, path, size: i.sizes[idx], times: i.times[idx] })))
+      .filter(c => c.times.modifiedAt > 0 && daysSinceUsed(c.times) >= policy.minAgeDays)
+      .sort((a, b) => daysSinceUsed(b.times) - daysSinceUsed(a.times));
+
+    const needed = policy.targetFreeGB * GB - freeBefore;
+    const budget = policy.maxGBPerRun * GB;
+    report.stopReason = scanner.cancelled ? "cancelled" : "no-candidates";
+    const results: DeleteResult[] = [];
+    for (const c of candidates) {
+      if (scanner.cancelled) break;
+      if (report.freed >= needed) {
+        report.stopReason = "target-reached";
+        break;
+      }
+      // 單次上限：略過會超出上限的項目，繼續嘗試較小的項目
+      if (report.freed + c.size > budget) {
+        report.stopReason = "max-per-run";
+        continue;
+      }
+
+      if (this.dryRun) {
+        report.actions.push({ task: c.task, path: c.path, size: c.size, status: "planned", freed: c.size });
+        report.freed += c.size;
+        this.note(t("auto.planned", { task: c.task, path: c.path, size: formatSize(c.size), days: Math.floor(daysSinceUsed(c.times)) }));
+        continue;
+      }
+
+      const [plan] = planItem({ name: c.task, path: c.path, size: c.size }, this.hasSudo, "delete", this.config.exclusions);
+      const result = await executePlan(plan);
+      results.push(result);
+      report.actions.push({ task: c.task, path: c.path, size: c.size, status: result.status, freed: result.freed, error: result.error, errorKey: result.errorKey, errorParams: result.errorParams });
+      report.freed += result.freed;
+      if (result.status === "failed") this.note(t("auto.failed", { task: c.task, path: c.path, error: result.error ?? "" }));
+      else this.note(t("auto.deleted", { task: c.task, path: c.path, size: formatSize(result.freed) }));
+    }
+    if (report.freed >= needed) report.stopReason = "target-reached";
+    if (results.length > 0) await RunHistory.append(cleanupRecord(results, "delete", true));
+
+    report.freeAfter = this.dryRun ? freeBefore + report.freed : await freeSpace(home);
+    this.note(t(this.dryRun ? "auto.finishedDryRun" : "auto.finished", {
+      reason: AUTO_STOP_LABELS[report.stopReason],
+      freed: formatSize(report.freed),
+      free: formatSize(report.freeAfter),
+    }));
+    await this.writeLog();
+    return report;
+  }
+
+  // 試執行不寫入紀錄
+  private async writeLog(): Promise<void> {
+    if (this.dryRun) return;
+    const file = expandPath(this.config.autoClean.logFile);
+    await mkdir(dirname(file), { recursive: true });
+    await appendFile(file, this.log.join("\n") + "\n");
+  }
+}
+
+// ============================================================================
+// 執行紀錄與統計
+// ============================================================================
+
+// 紀錄為 JSON Lines，每次掃描或清理附加一行；只新增欄位，不改寫既有的行。
+// 超出保留上限時整份改寫，捨棄舊紀錄（見 pruneHistory）
+interface CacheScanRecord {
+  type: "cacheScan";
+  at: string;
+  // 任務名稱 → 可清理大小；沒有可清理項目的任務記為 0
+  tasks: Record<string, number>;
+}
+
+interface OrphanScanRecord {
+  type: "orphanScan";
+  at: string;
+  counts: Record<Confidence, number>;
+  totalSize: number;
+  // 只有最近幾次掃描保留路徑清單，較舊的為空陣列
+  orphans: { path: string; size: number }[];
+}
+
+interface CleanupRecord {
+  type: "cleanup";
+  at: string;
+  removal: RemovalMode;
+  // 由自動清理政策執行
+  auto?: boolean;
+  freed: number;
+  // 移至隔離區或垃圾桶的大小；較舊的紀錄沒有此欄位，移動的大小記在 freed
+  moved?: number;
+  failed: number;
+  // 成功或部分成功的項目；name 為任務或應用程式名稱
+  items: { name: string; path: string; kind: DeleteResult["kind"]; freed: number; moved?: number }[];
+}
+
+type HistoryRecord = CacheScanRecord | OrphanScanRecord | CleanupRecord;
+
+class RunHistory {
+  // 試執行不寫入紀錄
+  static enabled = true;
+  static maxAgeMs = 180 * 86400e3;
+  static maxRecords = 1000;
+  // 保留殘留檔案路徑清單的掃描次數，用來找出刪除後又出現的項目
+  static orphanPathScans = 20;
+
+  static file(): string {
+    return join(homedir(), ".local", "share", "mac-clean-ts", "history.jsonl");
+  }
+
+  // 寫入中斷留下的不完整行直接略過
+  static async load(): Promise<HistoryRecord[]> {
+    let text: string;
+    try {
+      text = await readFile(RunHistory.file(), "utf-8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw new MessageError("history.unreadable", { file: RunHistory.file(), error: (err as Error).message });
+    }
+    const records: HistoryRecord[] = [];
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line) as HistoryRecord);
+      } catch {
+        // 略過
+      }
+    }
+    return records;
+  }
+
+  // 紀錄寫不進去不應讓掃描或清理失敗，只提示
+  static async append(record: HistoryRecord): Promise<void> {
+    if (!RunHistory.enabled) return;
+    const file = RunHistory.file();
+    try {
+      const records = [...(await RunHistory.load()), record];
+      const kept = pruneHistory(records);
+      await mkdir(dirname(file), { recursive: true });
+      if (kept.length === records.length && kept.every((r, i) => r === records[i])) {
+        await appendFile(file, JSON.stringify(record) + "\n");
+      } else {
+        // 先寫暫存檔再取代，中斷時不會留下截斷的紀錄
+        await writeFile(`${file}.tmp`, kept.map(r => JSON.stringify(r) + "\n").join(""));
+        await rename(`${file}.tmp`, file);
+      }
+    } catch (err) {
+      console.error(`${colors.yellow}${t("history.writeFailed", { file: RunHistory.file(), error: (err as Error).message })}${colors.reset}`);
+    }
+  }
+}
+
+// 捨棄超過保留天數或筆數的紀錄；較舊的殘留檔案掃描只留統計，不留路徑清單
+export function pruneHistory(records: HistoryRecord[], now = Date.now()): HistoryRecord[] {
+  const cutoff = now - RunHistory.maxAgeMs;
+  const kept = records.filter(r => Date.parse(r.at) >= cutoff).slice(-RunHistory.maxRecords);
+  let withPaths = 0;
+  for (let i = kept.length - 1; i >= 0; i--) {
+    const r = kept[i];
+    if (r.type !== "orphanScan" || r.orphans.length === 0) continue;
+    if (++withPaths > RunHistory.orphanPathScans) kept[i] = { ...r, orphans: [] };
+  }
+  return kept;
+}
+
+function cacheScanRecord(providers: CleanupProvider[], items: CleanupItem[]): CacheScanRecord {
+  const tasks: Record<string, number> = Object.fromEntries(providers.map(p => [p.name, 0]));
+  for (const i of items) tasks[i.task.name] = i.totalSize;
+  return { type: "cacheScan", at: new Date().toISOString(), tasks };
+}
+
+function orphanScanRecord(orphans: OrphanFile[]): OrphanScanRecord {
+  const counts: Record<Confidence, number> = { high: 0, medium: 0, low: 0 };
+  for (const o of orphans) counts[o.confidence]++;
+  return {
+    type: "orphanScan",
+    at: new Date().toISOString(),
+    counts,
+    totalSize: orphans.reduce((s, o) => s + o.size, 0),
+    orphans: orphans.map(o => ({ path: o.path, size: o.size })),
+  };
+}
+
+function cleanupRecord(results: DeleteResult[], removal: RemovalMode, auto = false): CleanupRecord {
+  const done = results.filter(r => r.status === "deleted" || r.status === "partial");
+  return {
+    type: "cleanup",
+    at: new Date().toISOString(),
+    removal,
+    ...(auto ? { auto } : {}),
+    freed: done.reduce((s, r) => s + r.freed, 0),
+    moved: done.reduce((s, r) => s + r.moved, 0),
+    failed: results.filter(r => r.status === "failed").length,
+    items: done.map(r => ({ name: r.name, path: r.path, kind: r.kind, freed: r.freed, moved: r.moved })),
+  };
+}
+
+interface TaskGrowth {
+  task: string;
+  // 期間內第一次與最後一次掃描的差
+  growth: number;
+  initial: number;
+  current: number;
+  // 用來比較的第一次掃描
+  since: string;
+}
+
+interface RecurringOrphan {
+  path: string;
+  // 刪除後又在之後的掃描中出現的次數
+  returns: number;
+  size: number;
+  lastSeen: string;
+}
+
+interface HistoryStats {
+  first?: string;
+  last?: string;
+  scans: number;
+  cleanups: number;
+  // 永久刪除釋放的空間；移至隔離區或垃圾桶的另計，因為尚未真正釋放
+  reclaimed: number;
+  moved: number;
+  reclaimedBy: { name: string; freed: number }[];
+  windowStart: string;
+  growth: TaskGrowth[];
+  lastOrphanScan?: { at: string; counts: Record<Confidence, number>; totalSize: number };
+  recurring: RecurringOrphan[];
+}
+
+const STATS_TOP = 10;
+const DEFAULT_STATS_WINDOW_MS = 7 * 86400e3;
+
+export function summarizeHistory(records: HistoryRecord[], windowMs: number, now = Date.now()): HistoryStats {
+  const sorted = [...records].sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+  const windowStart = now - windowMs;
+  const stats: HistoryStats = {
+    first: sorted[0]?.at,
+    last: sorted[sorted.length - 1]?.at,
+    scans: 0,
+    cleanups: 0,
+    reclaimed: 0,
+    moved: 0,
+    reclaimedBy: [],
+    windowStart: new Date(windowStart).toISOString(),
+    growth: [],
+    recurring: [],
+  };
+
+  const reclaimedBy = new Map<string, number>();
+  const growth = new Map<string, TaskGrowth>();
+  const deleted = new Set<string>();
+  const recurring = new Map<string, RecurringOrphan>();
+
+  for (const r of sorted) {
+    if (r.type === "cleanup") {
+      stats.cleanups++;
+      stats.reclaimed += r.removal === "delete" ? r.freed : 0;
+      stats.moved += r.moved ?? (r.removal === "delete" ? 0 : r.freed);
+      for (const item of r.items) {
+        if (r.removal === "delete") reclaimedBy.set(item.name, (reclaimedBy.get(item.name) ?? 0) + item.freed);
+        // 移至隔離區或垃圾桶的項目可能被還原，還原後再次出現不算反覆出現
+        if (item.kind === "path" && r.removal === "delete") deleted.add(item.path);
+      }
+    } else if (r.type === "cacheScan") {
+      stats.scans++;
+      if (Date.parse(r.at) < windowStart) continue;
+      for (const [task, size] of Object.entries(r.tasks)) {
+        const entry = growth.get(task);
+        if (!entry) {
+          growth.set(task, { task, growth: 0, initial: size, current: size, since: r.at });
+          continue;
+        }
+        entry.current = size;
+        entry.growth = size - entry.initial;
+      }
+    } else {
+      stats.scans++;
+      stats.lastOrphanScan = { at: r.at, counts: r.counts, totalSize: r.totalSize };
+      for (const o of r.orphans) {
+        if (!deleted.delete(o.path)) continue;
+        const entry = recurring.get(o.path) ?? { path: o.path, returns: 0, size: 0, lastSeen: r.at };
+        entry.returns++;
+        entry.size = o.size;
+        entry.lastSeen = r.at;
+        recurring.set(o.path, entry);
+      }
+    }
+  }
+
+  stats.reclaimedBy = [...reclaimedBy].map(([name, freed]) => ({ name, freed }))
+    .filter(e => e.freed > 0).sort((a, b) => b.freed - a.freed).slice(0, STATS_TOP);
+  stats.growth = [...growth.values()].filter(g => g.growth > 0).sort((a, b) => b.growth - a.growth).slice(0, STATS_TOP);
+  stats.recurring = [...recurring.values()].sort((a, b) => b.returns - a.returns || b.size - a.size).slice(0, STATS_TOP);
+  return stats;
+}
+
+// ============================================================================
+// Property List 解析
+// ============================================================================
+
+type PlistValue = string | number | boolean | Date | Uint8Array | null | PlistValue[] | { [key: string]: PlistValue };
+type PlistDict = { [key: string]: PlistValue };
+
+// 依開頭判斷格式：bplist00 為二進位，其餘視為 XML
+export function parsePlist(buf: Uint8Array): PlistValue {
+  const magic = new TextDecoder("latin1").decode(buf.subarray(0, 8));
+  return magic === "bplist00" ? parseBinaryPlist(buf) : parseXmlPlist(new TextDecoder().decode(buf));
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'" };
+
+function decodeXmlEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, e: string) => {
+    if (e[0] !== "#") return XML_ENTITIES[e] ?? m;
+    return String.fromCodePoint(e[1] === "x" || e[1] === "X" ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10));
+  });
+}
+
+function parseXmlPlist(text: string): PlistValue {
+  type Token = { tag?: string; close?: boolean; empty?: boolean; text?: string };
+  const tokens: Token[] = [];
+  const re = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<(\/)?([A-Za-z]+)[^>]*?(\/)?>|([^<]+)/g;
+  for (const m of text.matchAll(re)) {
+    if (m[2]) tokens.push({ tag: m[2], close: Boolean(m[1]), empty: Boolean(m[3]) });
+    else if (m[4] !== undefined) tokens.push({ text: m[4] });
+  }
+
+  let pos = 0;
+  const fail = (key: MessageKey, params?: MessageParams): never => { throw new MessageError(key, params); };
+  const skipText = () => { while (tokens[pos]?.text !== undefined) pos++; };
+  const readText = (tag: string): string => {
+    let s = "";
+    while (tokens[pos]?.text !== undefined) s += tokens[pos++].text;
+    const end = tokens[pos++];
+    if (!end?.close || end.tag !== tag) fail("plist.missingClose", { tag });
+    return decodeXmlEntities(s);
+  };
+
+  const value = (): PlistValue => {
+    skipText();
+    const t = tokens[pos++];
+    if (!t?.tag || t.close) return fail("plist.expectedValue");
+    switch (t.tag) {
+      case "plist": {
+        const v = value();
+        skipText();
+        return v;
+      }
+      case "dict": {
+        const dict: PlistDict = {};
+        if (t.empty) return dict;
+        for (;;) {
+          skipText();
+          const next = tokens[pos++];
+          if (next?.close && next.tag === "dict") return dict;
+          if (next?.tag !== "key" || next.close) return fail("plist.expectedKey");
+          dict[next.empty ? "" : readText("key")] = value();
+        }
+      }
+      case "array": {
+        const arr: PlistValue[] = [];
+        if (t.empty) return arr;
+        for (;;) {
+          skipText();
+          if (tokens[pos]?.close && tokens[pos].tag === "array") { pos++; return arr; }
+          arr.push(value());
+        }
+      }
+      case "true":
+      case "false":
+        if (!t.empty) readText(t.tag);
+        return t.tag === "true";
+      case "string":
+        return t.empty ? "" : readText("string");
+      case "integer":
+        return t.empty ? 0 : Number(readText("integer").trim());
+      case "real":
+        return t.empty ? 0 : parseFloat(readText("real"));
+      case "date":
+        return new Date(t.empty ? 0 : readText("date").trim());
+      case "data":
+        return new Uint8Array(Buffer.from(t.empty ? "" : readText("data").replace(/\s/g, ""), "base64"));
+      default:
+        return fail("plist.unknownTag", { tag: t.tag });
+    }
+  };
+
+  return value();
+}
+
+// 二進位格式：物件表 + 偏移表 + 32 位元組結尾（偏移大小、參照大小、物件數、根物件、偏移表位置）
+function parseBinaryPlist(buf: Uint8Array): PlistValue {
+  const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+  if (buf.length < 40) throw new MessageError("plist.tooShort");
+
+  const readUInt = (off: number, size: number): number => {
+    let n = 0;
+    for (let i = 0; i < size; i++) n = n * 256 + buf[off + i];
+    return n;
+  };
+
+  const trailer = buf.length - 32;
+  const offsetSize = buf[trailer + 6];
+  const refSize = buf[trailer + 7];
+  const numObjects = readUInt(trailer + 8, 8);
+  const topObject = readUInt(trailer + 16, 8);
+  const offsetTable = readUInt(trailer + 24, 8);
+  if (offsetTable + numObjects * offsetSize > trailer) throw new MessageError("plist.offsetsOutOfRange");
+
+  const objectOffset = (ref: number): number => {
+    if (ref >= numObjects) throw new MessageError("plist.refOutOfRange");
+    return readUInt(offsetTable + ref * offsetSize, offsetSize);
+  };
+
+  // 長度 nibble 為 0xF 時，實際長度是緊接在後的整數物件
+  const lengthAt = (off: number): [number, number] => {
+    const info = buf[off] & 0x0f;
+    if (info !== 0x0f) return [info, off + 1];
+    const intSize = 1 << (buf[off + 1] & 0x0f);
+    return [readUInt(off + 2, intSize), off + 2 + intSize];
+  };
+
+  const parse = (ref: number, depth: number): PlistValue => {
+    if (depth > 512) throw new MessageError("plist.tooDeep");
+    const off = objectOffset(ref);
+    const marker = buf[off];
+    const type = marker >> 4;
+    const info = marker & 0x0f;
+
+    switch (type) {
+      case 0x0:
+        if (info === 0x8) return false;
+        if (info === 0x9) return true;
+        return null;
+      case 0x1: {
+        const size = 1 << info;
+        if (size === 8) return Number(view.getBigInt64(off + 1));
+        return readUInt(off + 1, size);
+      }
+      case 0x2:
+        return info === 2 ? view.getFloat32(off + 1) : view.getFloat64(off + 1);
+      case 0x3:
+        // 自 2001-01-01 起的秒數
+        return new Date((view.getFloat64(off + 1) + 978307200) * 1000);
+      case 0x4: {
+        const [len, start] = lengthAt(off);
+        return buf.slice(start, start + len);
+      }
+      case 0x5: {
+        const [len, start] = lengthAt(off);
+        return new TextDecoder("latin1").decode(buf.subarray(start, start + len));
+      }
+      case 0x6: {
+        const [len, start] = lengthAt(off);
+        let s = "";
+        for (let i = 0; i < len; i++) s += String.fromCharCode(view.getUint16(start + i * 2));
+        return s;
+      }
+      case 0x7: {
+        const [len, start] = lengthAt(off);
+        return new TextDecoder().decode(buf.subarray(start, start + len));
+      }
+      case 0x8:
+        return readUInt(off + 1, info + 1);
+      case 0xa:
+      case 0xc: {
+        const [len, start] = lengthAt(off);
+        return Array.from({ length: len }, (_, i) => parse(readUInt(start + i * refSize, refSize), depth + 1));
+      }
+      case 0xd: {
+        const [len, start] = lengthAt(off);
+        const dict: PlistDict = {};
+        for (let i = 0; i < len; i++) {
+          const key = parse(readUInt(start + i * refSize, refSize), depth + 1);
+          dict[String(key)] = parse(readUInt(start + (len + i) * refSize, refSize), depth + 1);
+        }
+        return dict;
+      }
+      default:
+        throw new MessageError("plist.unknownType", { marker: marker.toString(16) });
+    }
+  };
+
+  return parse(topObject, 0);
+}
+
+// ============================================================================
+// 已安裝應用程式索引
+// ============================================================================
+
+interface InstalledApp {
+  path: string;
+  bundleId: string | null;
+  name: string;
+  executable: string | null;
+  teamIds: string[];
+  groupIds: string[];
+}
+
+interface AppMatch {
+  app: InstalledApp;
+  via: "bundleId" | "bundlePrefix" | "group" | "vendor" | "team" | "name";
+}
+
+// 這些比對方式可確定項目屬於已安裝的應用程式（名稱完全相同也算，例如 Application Support/Slack），
+// 同廠商與 Team ID 只作為評分線索
+const DEFINITE_MATCHES: AppMatch["via"][] = ["bundleId", "bundlePrefix", "group", "name"];
+
+// 移除殘留項目名稱上常見的副檔名，讓 com.foo.bar.plist、com.foo.bar.savedState 也能以 bundle ID 比對
+const BUNDLE_ENTRY_SUFFIX = /\.(plist|savedState|binarycookies|lockfile)$/i;
+
+function plistString(dict: PlistDict, key: string): string | null {
+  const v = dict[key];
+  return typeof v === "string" && v ? v : null;
+}
+
+function plistStrings(dict: PlistDict, key: string): string[] {
+  const v = dict[key];
+  if (typeof v === "string") return [v];
+  return Array.isArray(v) ? v.filter((s): s is string => typeof s === "string") : [];
+}
+
+// embedded.provisionprofile 是 CMS 簽章包住的 XML plist，直接擷取其中的 XML 部分解析
+async function readProvisioningProfile(appPath: string): Promise<{ teamIds: string[]; groupIds: string[] }> {
+  const result = { teamIds: [] as string[], groupIds: [] as string[] };
+  let raw: string;
+  try {
+    raw = (await readFile(join(appPath, "Contents", "embedded.provisionprofile"))).toString("latin1");
+  } catch {
+    return result;
+  }
+  const start = raw.indexOf("<?xml");
+  const end = raw.indexOf("</plist>", start);
+  if (start < 0 || end < 0) return result;
+  try {
+    const profile = parseXmlPlist(Buffer.from(raw.slice(start, end + 8), "latin1").toString("utf-8"));
+    if (!isPlainObject(profile)) return result;
+    const dict = profile as PlistDict;
+    result.teamIds.push(...plistStrings(dict, "TeamIdentifier"));
+    const ent = dict.Entitlements;
+    if (isPlainObject(ent)) {
+      const entitlements = ent as PlistDict;
+      result.teamIds.push(...plistStrings(entitlements, "com.apple.developer.team-identifier"));
+      result.groupIds.push(...plistStrings(entitlements, "com.apple.security.application-groups"));
+    }
+  } catch {}
+  return result;
+}
+
+// 執行外部指令並逐行回傳輸出；指令不存在或失敗時回傳空陣列
+async function commandLines(file: string, args: string[]): Promise<string[]> {
+  try {
+    const { stdout } = await execFileAsync(file, args, { encoding: "utf-8", maxBuffer: 50 * 1024 * 1024, timeout: 30_000 });
+    return stdout.split("\n").map(line => line.trim()).filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+export async function readAppBundle(appPath: string): Promise<InstalledApp | null> {
+  let info: PlistDict = {};
+  try {
+    const parsed = parsePlist(await readFile(join(appPath, "Contents", "Info.plist")));
+    if (isPlainObject(parsed)) info = parsed as PlistDict;
+  } catch {
+    // 沒有 Info.plist 或無法解析的 .app 仍以資料夾名稱列入
+  }
+  const profile = await readProvisioningProfile(appPath);
+  return {
+    path: appPath,
+    bundleId: plistString(info, "CFBundleIdentifier"),
+    name: plistString(info, "CFBundleDisplayName") ?? plistString(info, "CFBundleName") ?? basename(appPath).replace(/\.app$/i, ""),
+    executable: plistString(info, "CFBundleExecutable"),
+    teamIds: [...new Set(profile.teamIds)],
+    groupIds: [...new Set(profile.groupIds)],
+  };
+}
+
+export class AppIndex {
+  readonly apps: InstalledApp[] = [];
+  private byBundleId = new Map<string, InstalledApp>();
+  // 所有 bundle ID 的廠商層級前綴（至少兩段），例如 com.microsoft.word → com.microsoft
+  private byVendorPrefix = new Map<string, InstalledApp>();
+  private byName = new Map<string, InstalledApp>();
+  private byGroupId = new Map<string, InstalledApp>();
+  private byTeamId = new Map<string, InstalledApp>();
+
+  // 在各根目錄下尋找 .app（往下兩層，例如 /Applications/Utilities），不進入 .app 內部，
+  // 再補上 Spotlight 在其他位置找到的 .app；Homebrew cask 與 pkgutil 安裝紀錄沒有 .app 可讀，只以名稱列入
+  static async build(roots: string[]): Promise<AppIndex> {
+    const index = new AppIndex();
+    const bundles = new Set<string>();
+    const walk = async (dir: string, depth: number): Promise<void> => {
+      for (const e of await listDir(dir)) {
+        const p = join(dir, e.name);
+        if (/\.app$/i.test(e.name)) bundles.add(p);
+        else if (e.isDirectory() && depth < 2) await walk(p, depth + 1);
+      }
+    };
+    for (const root of roots) await walk(expandPath(root), 0);
+
+    const [spotlight, casks, receipts] = await Promise.all([
+      commandLines("mdfind", ["kMDItemContentType == 'com.apple.application-bundle'"]),
+      commandLines("brew", ["list", "--cask"]),
+      commandLines("pkgutil", ["--pkgs"]),
+    ]);
+    for (const p of spotlight) {
+      if (/\.app$/i.test(p) && !insideBundle(p)) bundles.add(p);
+    }
+
+    const apps = await runPool([...bundles], DEFAULT_SCAN_JOBS, readAppBundle);
+    for (const app of apps) {
+      if (app) index.add(app);
+    }
+    for (const cask of casks) index.addName(cask);
+    // 安裝紀錄 ID 的最後一段通常是產品名稱，例如 com.microsoft.teams → teams；系統套件不列入
+    for (const id of receipts) {
+      if (!id.startsWith("com.apple.")) index.addName(id.split(".").pop()!);
+    }
+    return index;
+  }
+
+  // 只有名稱可比對的安裝紀錄；已有同名的應用程式時略過
+  addName(name: string): void {
+    if (name.length < 3 || this.byName.has(name.toLowerCase())) return;
+    this.add({ path: "", bundleId: null, name, executable: null, teamIds: [], groupIds: [] });
+  }
+
+  add(app: InstalledApp): void {
+    this.apps.push(app);
+    if (app.bundleId) {
+      const id = app.bundleId.toLowerCase();
+      this.byBundleId.set(id, app);
+      const parts = id.split(".");
+      for (let k = 2; k < parts.length; k++) this.byVendorPrefix.set(parts.slice(0, k).join("."), app);
+    }
+    for (const n of [app.name, app.executable, basename(app.path).replace(/\.app$/i, "")]) {
+      if (n) this.byName.set(n.toLowerCase(), app);
+    }
+    for (const g of app.groupIds) this.byGroupId.set(g.toLowerCase(), app);
+    for (const t of app.teamIds) this.byTeamId.set(t.toLowerCase(), app);
+  }
+
+  get size(): number {
+    return this.apps.length;
+  }
+
+  // 依安裝檔檔名（例如 Slack-4.33.0-arm64.dmg）找出已安裝的應用程式。
+  // 安裝檔本身（例如 ~/Downloads/Foo.app）與放在 ignoreRoots 之下的 .app 不算已安裝，
+  // 否則 Spotlight 找到的下載檔會與自己比對成功
+  matchInstaller(path: string, ignoreRoots: string[] = []): InstalledApp | null {
+    const roots = ignoreRoots.map(r => expandPath(r).replace(/\/+$/, ""));
+    const ignored = (p: string) => [path, ...roots].some(r => p === r || p.startsWith(`${r}/`));
+    const stem = basename(path)
+      .replace(/\.[a-z0-9]+$/i, "")
+      .toLowerCase()
+      .replace(/[-_ ]v?\d+(\.\d+)*\b.*$/, "")
+      .replace(/[-_ ]?(arm64|x64|x86_64|intel|universal|macos|mac|osx|darwin|installer|setup)\b/g, "")
+      .replace(/[^a-z0-9]/g, "");
+    if (stem.length < 3) return null;
+    for (const app of this.apps) {
+      if (app.path && ignored(app.path)) continue;
+      // 只接受與應用程式名稱或 bundle ID 末段完全相同，避免 Slacker.dmg 被當成 Slack 的安裝檔
+      for (const n of [app.name, app.executable, basename(app.path).replace(/\.app$/i, ""), app.bundleId?.split(".").pop()]) {
+        const norm = n?.toLowerCase().replace(/[^a-z0-9]/g, "");
+        if (norm && norm.length >= 3 && stem === norm) return app;
+      }
+    }
+    return null;
+  }
+
+  // 找出擁有此殘留項目的已安裝應用程式，找不到時回傳 null。
+  // 比對順序：完整 bundle ID、bundle ID 前綴（helper 或子元件，例如 com.foo.app.helper）、App Group，
+  // 以及與應用程式名稱完全相同，以上視為確定屬於該應用程式；同廠商（com.foo 或 com.foo.other）與 Team ID 前綴則只是線索
+  match(entry: string): AppMatch | null {
+    const id = entry.replace(BUNDLE_ENTRY_SUFFIX, "").toLowerCase();
+    const parts = id.split(".");
+
+    const exact = this.byBundleId.get(id);
+    if (exact) return { app: exact, via: "bundleId" };
+    for (let k = parts.length - 1; k >= 2; k--) {
+      const app = this.byBundleId.get(parts.slice(0, k).join("."));
+      if (app) return { app, via: "bundlePrefix" };
+    }
+    const group = this.byGroupId.get(id);
+    if (group) return { app: group, via: "group" };
+
+    if (parts.length >= 2) {
+      const vendor = this.byVendorPrefix.get(id) ?? this.byVendorPrefix.get(parts.slice(0, 2).join("."));
+      if (vendor) return { app: vendor, via: "vendor" };
+      const team = this.byTeamId.get(parts[0]);
+      if (team) return { app: team, via: "team" };
+    }
+    const named = this.byName.get(id);
+    return named ? { app: named, via: "name" } : null;
+  }
+}
+
+// ============================================================================
+// 專案建置產物掃描器
+// ============================================================================
+
+interface ArtifactRule {
+  dir: string;
+  kind: string;
+  // 同一層必須有其中一個標記檔，才視為該專案的建置產物
+  markers: string[];
+}
+
+const PROJECT_ARTIFACTS: ArtifactRule[] = [
+  { dir: "node_modules", kind: "Node.js", markers: ["package.json"] },
+  { dir: ".next", kind: "Next.js", markers: ["next.config.js", "next.config.mjs", "next.config.ts", "package.json"] },
+  { dir: "target", kind: "Rust", markers: ["Cargo.toml"] },
+  { dir: ".venv", kind: "Python", markers: ["pyproject.toml", "requirements.txt", "setup.py", "Pipfile"] },
+  { dir: "venv", kind: "Python", markers: ["pyproject.toml", "requirements.txt", "setup.py", "Pipfile"] },
+  { dir: ".gradle", kind: "Gradle", markers: ["build.gradle", "build.gradle.kts", "settings.gradle", "settings.gradle.kts"] },
+  { dir: "build", kind: "Build", markers: ["build.gradle", "build.gradle.kts", "package.json", "pyproject.toml", "setup.py", "CMakeLists.txt"] },
+  { dir: "dist", kind: "Build", markers: ["package.json", "pyproject.toml", "setup.py"] },
+  { dir: "Pods", kind: "CocoaPods", markers: ["Podfile"] },
+];
+
+// 這些資料夾不會往下尋找專案
+const PROJECT_SKIP_DIRS = new Set(["node_modules", ".git", "Library", "Applications"]);
+const PROJECT_MAX_DEPTH = 6;
+
+const WORKSPACE_ROOTS = ["~/code", "~/Projects", "~/Developer"];
+
+// 最後一次 git 活動時間：讀取 .git/logs/HEAD 最後一筆紀錄（commit、checkout 都會寫入），不需呼叫 git
+async function lastGitActivity(dir: string, stopAt: string): Promise<number | null> {
+  for (let d = dir; ; d = dirname(d)) {
+    const gitDir = join(d, ".git");
+    if (existsSync(gitDir)) {
+      try {
+        const lines = (await readFile(join(gitDir, "logs", "HEAD"), "utf-8")).trimEnd().split("\n");
+        const m = lines[lines.length - 1].match(/> (\d+) [+-]\d{4}\t/);
+        return m ? Number(m[1]) * 1000 : null;
+      } catch {
+        // worktree 的 .git 是檔案，或尚無任何 commit
+        return null;
+      }
+    }
+    if (d === stopAt || dirname(d) === d) return null;
+  }
+}
+
+// 沒有 git 紀錄時，以專案最上層（排除建置產物）最新的修改時間估計
+async function lastFileActivity(dir: string, artifacts: Set<string>): Promise<number> {
+  let newest = 0;
+  for (const e of await listDir(dir)) {
+    if (artifacts.has(e.name)) continue;
+    try {
+      newest = Math.max(newest, (await lstat(join(dir, e.name))).mtimeMs);
+    } catch {}
+  }
+  return newest;
+}
+
+class ProjectScanner {
+  private sizes = new SizeCalculator();
+  private exclusions: ExclusionRules;
+  private options: ScanOptions;
+  excluded: ExcludedEntry[] = [];
+  cancelled = false;
+
+  constructor(exclusions: ExclusionRules, options: ScanOptions = {}) {
+    this.exclusions = exclusions;
+    this.options = options;
+  }
+
+  // 回傳 專案路徑 → 其下的建置產物
+  private async discover(dir: string, depth: number, found: Map<string, { path: string; kind: string }[]>, signal: AbortSignal): Promise<void> {
+    if (signal.aborted) return;
+    const entries = await listDir(dir);
+    const names = new Set(entries.map(e => e.name));
+    const artifacts = new Set<string>();
+
+    for (const rule of PROJECT_ARTIFACTS) {
+      const e = entries.find(x => x.name === rule.dir && x.isDirectory());
+      if (!e || !rule.markers.some(m => names.has(m))) continue;
+      const path = join(dir, e.name);
+      artifacts.add(e.name);
+      const excludedBy = this.exclusions.match(path);
+      if (excludedBy) {
+        this.excluded.push({ path, rule: excludedBy });
+        continue;
+      }
+      if (!found.has(dir)) found.set(dir, []);
+      found.get(dir)!.push({ path, kind: rule.kind });
+    }
+
+    if (depth >= PROJECT_MAX_DEPTH) return;
+    for (const e of entries) {
+      // 不跟隨符號連結，也不進入建置產物與隱藏資料夾
+      if (!e.isDirectory() || artifacts.has(e.name) || PROJECT_SKIP_DIRS.has(e.name) || e.name.startsWith(".")) continue;
+      await this.discover(join(dir, e.name), depth + 1, found, signal);
+    }
+  }
+
+  private async scanProject(dir: string, root: string, artifacts: { path: string; kind: string }[], options: ScanOptions): Promise<ProjectItem | null> {
+    const gitTime = await lastGitActivity(dir, root);
+    const lastActivity = gitTime ?? await lastFileActivity(dir, new Set(artifacts.map(a => basename(a.path))));
+    if (options.maxAgeDays !== undefined && (Date.now() - lastActivity) / 86400e3 < options.maxAgeDays) return null;
+
+    const measured: ProjectArtifact[] = [];
+    for (const a of artifacts) {
+      if (options.signal?.aborted) break;
+      const { size } = await this.sizes.sizeFor(a.path, options);
+      if (size > 0) measured.push({ ...a, size });
+    }
+    const totalSize = measured.reduce((s, a) => s + a.size, 0);
+    if (totalSize === 0) return null;
+
+    return {
+      name: basename(dir),
+      root: dir,
+      artifacts: measured.sort((a, b) => b.size - a.size),
+      totalSize,
+      lastActivity,
+      activitySource: gitTime !== null ? "git" : "mtime",
+    };
+  }
+
+  async scan(roots: string[]): Promise<ProjectItem[]> {
+    if (!this.options.quiet) {
+      console.log(`\n${colors.bright}${colors.cyan}════════════════════════════════════════════════════════════════════════════════${colors.reset}`);
+      console.log(`${colors.bright}${colors.cyan}  ${t("projects.scanTitle")}${colors.reset}`);
+      console.log(`${colors.bright}${colors.cyan}════════════════════════════════════════════════════════════════════════════════${colors.reset}\n`);
+    }
+
+    const interrupt = interceptInterrupt(this.options.signal);
+    const options = { ...this.options, signal: interrupt.signal };
+    const found = new Map<string, { path: string; kind: string }[]>();
+    const projectRoot = new Map<string, string>();
+
+    const finding = new ProgressDisplay();
+    finding.start(t("projects.finding"));
+    try {
+      for (const root of roots.map(expandPath)) {
+        const before = new Set(found.keys());
+        await this.discover(root, 0, found, interrupt.signal);
+        for (const dir of found.keys()) if (!before.has(dir)) projectRoot.set(dir, root);
+      }
+    } finally {
+      finding.stop();
+    }
+
+    const dirs = [...found.keys()];
+    if (!this.options.quiet) console.log(`${colors.dim}${t("projects.found", { roots: roots.join(", "), count: dirs.length })}${colors.reset}\n`);
+
+    const progress = new ScanProgress(t("projects.progress"), dirs.length, this.options.quiet);
+    progress.start();
+    try {
+      const results = await runPool(dirs, this.options.concurrency ?? DEFAULT_SCAN_JOBS, async dir => {
+        const job = progress.begin(basename(dir));
+        const item = await this.scanProject(dir, projectRoot.get(dir)!, found.get(dir)!, options);
+        progress.finish(job, item?.totalSize ?? 0);
+        if (item) this.options.onProject?.(item);
+        return item;
+      }, interrupt.signal);
+      this.cancelled = interrupt.signal.aborted;
+      return results.filter((p): p is ProjectItem => !!p).sort((a, b) => b.totalSize - a.totalSize);
+    } finally {
+      progress.stop();
+      interrupt.dispose();
+    }
+  }
+
+  get warnings(): Message[] {
+    return this.sizes.warnings;
+  }
+}
+
+// ============================================================================
+// 大型與舊檔案掃描器
+// ============================================================================
+
+type FileKind = "installer" | "archive" | "media" | "vm" | "other";
+
+const FILE_KIND_LABELS: Record<FileKind, string> = {
+  installer: t("fileKind.installer"),
+  archive: t("fileKind.archive"),
+  media: t("fileKind.media"),
+  vm: t("fileKind.vm"),
+  other: t("fileKind.other"),
+};
+
+const FILE_KIND_EXTENSIONS: Record<Exclude<FileKind, "other">, string[]> = {
+  installer: ["dmg", "pkg", "mpkg", "iso", "xip", "exe", "msi", "app"],
+  archive: ["zip", "tar", "gz", "tgz", "bz2", "xz", "7z", "rar", "zst"],
+  media: ["mp4", "mov", "mkv", "avi", "m4v", "webm", "mp3", "wav", "flac", "aiff", "m4a"],
+  vm: ["vmdk", "vdi", "qcow2", "vhd", "vhdx", "hdd", "ova", "img", "utm", "pvm", "vmwarevm"],
+};
+
+// 以整個資料夾為單位計算的套件，不往內尋找；套件內的檔案由所屬的應用程式管理，不可個別刪除
+const BUNDLE_EXTENSIONS = new Set([
+  "app", "bundle", "framework", "plugin", "kext", "appex", "xpc",
+  "utm", "pvm", "vmwarevm", "sparsebundle",
+  "photoslibrary", "photolibrary", "musiclibrary", "tvlibrary", "imovielibrary", "aplibrary", "lrlibrary",
+  "fcpbundle", "logicx", "band", "xcodeproj", "xcworkspace", "playground",
+  "pages", "numbers", "key", "rtfd", "scriv",
+]);
+
+// 路徑中任一層為套件時，即屬於套件內部
+function insideBundle(path: string): boolean {
+  return path.split("/").slice(0, -1).some(part => BUNDLE_EXTENSIONS.has(fileExtension(part)));
+}
+
+const PERSONAL_ROOTS = ["~/Downloads", "~/Desktop", "~/Documents"];
+const PERSONAL_MIN_SIZE_MB = 500;
+const PERSONAL_OLDER_THAN_DAYS = 180;
+// 只因「舊」而列出的檔案至少要有此大小，避免列出大量零碎文件
+const PERSONAL_OLD_FLOOR = 10 * 1024 * 1024;
+
+function fileExtension(name: string): string {
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : "";
+}
+
+function classifyFile(name: string): FileKind {
+  const ext = fileExtension(name);
+  for (const [kind, exts] of Object.entries(FILE_KIND_EXTENSIONS)) {
+    if (exts.includes(ext)) return kind as FileKind;
+  }
+  // .tar.gz 等雙副檔名
+  return /\.tar\.[a-z0-9]+$/i.test(name) ? "archive" : "other";
+}
+
+class PersonalFileScanner {
+  private sizes = new SizeCalculator();
+  private apps = new AppIndex();
+  private config: AppConfig;
+  private options: ScanOptions;
+  excluded: ExcludedEntry[] = [];
+  cancelled = false;
+
+  constructor(config: AppConfig, options: ScanOptions = {}) {
+    this.config = config;
+    this.options = options;
+  }
+
+  private async walk(dir: string, options: ScanOptions, limits: { minSize: number; olderThanDays: number }, out: PersonalFile[]): Promise<number> {
+    let found = 0;
+    for (const e of await listDir(dir)) {
+      if (options.signal?.aborted) break;
+      if (e.name.startsWith(".") || e.isSymbolicLink()) continue;
+      const path = join(dir, e.name);
+      const isBundle = e.isDirectory() && BUNDLE_EXTENSIONS.has(fileExtension(e.name));
+      if (e.isDirectory() && !isBundle) {
+        found += await this.walk(path, options, limits, out);
+        continue;
+      }
+      if (!e.isFile() && !isBundle) continue;
+
+      const rule = this.config.exclusions.match(path);
+      if (rule) {
+        this.excluded.push({ path, rule });
+        continue;
+      }
+
+      let size: number, modifiedAt: number, accessedAt: number;
+      if (isBundle) {
+        ({ size, modifiedAt, accessedAt } = await this.sizes.sizeFor(path, options));
+      } else {
+        try {
+          const st = await lstat(path);
+          size = options.apparentSize ? st.size : st.blocks * 512;
+          modifiedAt = st.mtimeMs;
+          accessedAt = st.atimeMs;
+        } catch {
+          continue;
+        }
+      }
+
+      const old = daysSinceUsed({ modifiedAt, accessedAt }) >= limits.olderThanDays;
+      if (size < limits.minSize && !(old && size >= PERSONAL_OLD_FLOOR)) continue;
+
+      const kind = classifyFile(e.name);
+      const installed = kind === "installer" ? this.apps.matchInstaller(path, this.config.personalFiles.roots) : null;
+      out.push({ path, size, kind, modifiedAt, accessedAt, installedApp: installed?.name });
+      found += size;
+    }
+    return found;
+  }
+
+  async scan(): Promise<PersonalFile[]> {
+    if (!this.options.quiet) {
+      console.log(`\n${colors.bright}${colors.cyan}════════════════════════════════════════════════════════════════════════════════${colors.reset}`);
+      console.log(`${colors.bright}${colors.cyan}  ${t("files.scanTitle")}${colors.reset}`);
+      console.log(`${colors.bright}${colors.cyan}════════════════════════════════════════════════════════════════════════════════${colors.reset}\n`);
+    }
+
+    const loading = new ProgressDisplay();
+    loading.start(t("files.loadingApps"));
+    this.apps = await AppIndex.build(this.config.appRoots);
+    loading.stop();
+
+    const { roots, minSizeMB, olderThanDays } = this.config.personalFiles;
+    const limits = {
+      minSize: (this.options.minSizeMB ?? minSizeMB) * 1024 * 1024,
+      olderThanDays: this.options.maxAgeDays ?? olderThanDays,
+    };
+    if (!this.options.quiet) {
+      console.log(`${colors.dim}${t("files.criteria", { minSize: formatSize(limits.minSize), days: limits.olderThanDays, floor: formatSize(PERSONAL_OLD_FLOOR) })}${colors.reset}\n`);
+    }
+
+    const interrupt = interceptInterrupt(this.options.signal);
+    const options = { ...this.options, signal: interrupt.signal };
+    const files: PersonalFile[] = [];
+    const progress = new ScanProgress(t("files.progress"), roots.length, this.options.quiet);
+
+    progress.start();
+    try {
+      await runPool(roots, this.options.concurrency ?? DEFAULT_SCAN_JOBS, async root => {
+        const job = progress.begin(basename(expandPath(root)));
+        const found = await this.walk(expandPath(root), options, limits, files);
+        progress.finish(job, found);
+      }, interrupt.signal);
+      this.cancelled = interrupt.signal.aborted;
+    } finally {
+      progress.stop();
+      interrupt.dispose();
+    }
+
+    files.sort((a, b) => b.size - a.size);
+    for (const f of files) this.options.onFile?.(f);
+    return files;
+  }
+
+  get warnings(): Message[] {
+    return this.sizes.warnings;
+  }
+}
+
+// ============================================================================
+// 重複檔案掃描器
+// ============================================================================
+
+const DUPLICATE_ROOTS = ["~/Documents", "~/Desktop", "~/Downloads", "~/Pictures"];
+const DUPLICATE_MIN_SIZE_KB = 64;
+// 部分雜湊讀取檔案開頭與結尾各這麼多位元組；不超過兩倍大小的檔案部分雜湊即涵蓋全部內容
+const PARTIAL_HASH_BYTES = 64 * 1024;
+
+interface DuplicateCandidate {
+  path: string;
+  size: number;
+  modifiedAt: number;
+}
+
+async function partialHash(path: string, size: number): Promise<string> {
+  const fh = await open(path, "r");
+  try {
+    const hash = createHash("sha256");
+    const head = Buffer.alloc(Math.min(size, PARTIAL_HASH_BYTES));
+    await fh.read(head, 0, head.length, 0);
+    hash.update(head);
+    if (size > PARTIAL_HASH_BYTES) {
+      const tail = Buffer.alloc(Math.min(size - PARTIAL_HASH_BYTES, PARTIAL_HASH_BYTES));
+      await fh.read(tail, 0, tail.length, size - tail.length);
+      hash.update(tail);
+    }
+    return hash.digest("hex");
+  } finally {
+    await fh.close();
+  }
+}
+
+async function fullHash(path: string): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of createReadStream(path)) hash.update(chunk as Buffer);
+  return hash.digest("hex");
+}
+
+const COMPARE_CHUNK_BYTES = 1024 * 1024;
+
+// 逐位元組比對兩個檔案
+async function sameContent(a: string, b: string): Promise<boolean> {
+  const [sa, sb] = await Promise.all([lstat(a), lstat(b)]);
+  if (!sa.isFile() || !sb.isFile() || sa.size !== sb.size) return false;
+  const [fa, fb] = await Promise.all([open(a, "r"), open(b, "r")]);
+  try {
+    const ba = Buffer.alloc(COMPARE_CHUNK_BYTES);
+    const bb = Buffer.alloc(COMPARE_CHUNK_BYTES);
+    for (let pos = 0; pos < sa.size; pos += COMPARE_CHUNK_BYTES) {
+      const [ra, rb] = await Promise.all([fa.read(ba, 0, COMPARE_CHUNK_BYTES, pos), fb.read(bb, 0, COMPARE_CHUNK_BYTES, pos)]);
+      if (ra.bytesRead !== rb.bytesRead || !ba.subarray(0, ra.bytesRead).equals(bb.subarray(0, rb.bytesRead))) return false;
+      if (ra.bytesRead === 0) break;
+    }
+    return true;
+  } finally {
+    await Promise.all([fa.close(), fb.close()]);
+  }
+}
+
+// 刪除前確認檔案仍與同組中某個尚存的檔案完全相同；掃描後被修改或其他副本已不在時不可刪除
+async function stillDuplicate(path: string, others: string[]): Promise<boolean> {
+  for (const other of others) {
+    try {
+      if (await sameContent(path, other)) return true;
+    } catch {
+      // 已刪除或無法讀取的副本不算
+    }
+  }
+  return false;
+}
+
+// 保留最早修改的檔案（通常是原始檔），相同時保留路徑較短者
+function chooseKeeper(files: DuplicateCandidate[]): DuplicateCandidate {
+  return [...files].sort((a, b) =>
+    a.modifiedAt - b.modifiedAt || a.path.length - b.path.length || a.path.localeCompare(b.path),
+  )[0];
+}
+
+class DuplicateScanner {
+  private progress = new ProgressDisplay();
+  private exclusions: ExclusionRules;
+  private options: ScanOptions;
+  excluded: ExcludedEntry[] = [];
+  warnings: Message[] = [];
+  cancelled = false;
+
+  constructor(exclusions: ExclusionRules, options: ScanOptions = {}) {
+    this.exclusions = exclusions;
+    this.options = options;
+  }
+
+  // 依大小分組；同一個檔案的硬連結只取一個，它們不佔用額外空間
+  private async walk(dir: string, minSize: number, bySize: Map<number, DuplicateCandidate[]>, inodes: Set<string>, signal: AbortSignal): Promise<void> {
+    for (const e of await listDir(dir)) {
+      if (signal.aborted) return;
+      if (e.name.startsWith(".") || e.isSymbolicLink()) continue;
+      const path = join(dir, e.name);
+      if (e.isDirectory()) {
+        if (!BUNDLE_EXTENSIONS.has(fileExtension(e.name))) await this.walk(path, minSize, bySize, inodes, signal);
+        continue;
+      }
+      // 掃描根目錄本身就在套件內時（例如直接指定 .photoslibrary），其中的檔案一樣不列入
+      if (!e.isFile() || insideBundle(path)) continue;
+
+      let st;
+      try { st = await lstat(path); } catch { continue; }
+      if (st.size < minSize) continue;
+      const inode = `${st.dev}:${st.ino}`;
+      if (inodes.has(inode)) continue;
+      inodes.add(inode);
+
+      const rule = this.exclusions.match(path);
+      if (rule) {
+        this.excluded.push({ path, rule });
+        continue;
+      }
+      if (!bySize.has(st.size)) bySize.set(st.size, []);
+      bySize.get(st.size)!.push({ path, size: st.size, modifiedAt: st.mtimeMs });
+    }
+  }
+
+  // 以雜湊細分每一組，只留下仍有兩個以上成員的組
+  private async refine(
+    groups: DuplicateCandidate[][],
+    label: string,
+    hashFn: (f: DuplicateCandidate) => Promise<string>,
+    signal: AbortSignal,
+  ): Promise<Map<string, DuplicateCandidate[]>> {
+    const files = groups.flat();
+    const hashes = new Map<DuplicateCandidate, string>();
+    let done = 0;
+    await runPool(files, this.options.concurrency ?? DEFAULT_SCAN_JOBS, async f => {
+      try {
+        hashes.set(f, await hashFn(f));
+      } catch (err) {
+        const e = err as NodeJS.ErrnoException;
+        this.warnings.push(translated("dupes.unreadable", { path: f.path, error: e.code ?? e.message }));
+      }
+      this.progress.update(`${label} ${++done}/${files.length}`);
+    }, signal);
+
+    const result = new Map<string, DuplicateCandidate[]>();
+    for (const [f, h] of hashes) {
+      const key = `${f.size}:${h}`;
+      if (!result.has(key)) result.set(key, []);
+      result.get(key)!.push(f);
+    }
+    for (const [key, members] of result) if (members.length < 2) result.delete(key);
+    return result;
+  }
+
+  async scan(roots: string[]): Promise<DuplicateGroup[]> {
+    if (!this.options.quiet) {
+      console.log(`\n${colors.bright}${colors.cyan}════════════════════════════════════════════════════════════════════════════════${colors.reset}`);
+      console.log(`${colors.bright}${colors.cyan}  ${t("dupes.scanTitle")}${colors.reset}`);
+      console.log(`${colors.bright}${colors.cyan}════════════════════════════════════════════════════════════════════════════════${colors.reset}\n`);
+      console.log(`${colors.dim}${t("dupes.roots", { roots: roots.join(", ") })}${colors.reset}\n`);
+    }
+
+    const interrupt = interceptInterrupt(this.options.signal);
+    const minSize = this.options.minSizeMB !== undefined ? this.options.minSizeMB * 1024 * 1024 : DUPLICATE_MIN_SIZE_KB * 1024;
+    const bySize = new Map<number, DuplicateCandidate[]>();
+    const groups: DuplicateGroup[] = [];
+
+    this.progress.start(t("dupes.bySize"));
+    try {
+      const inodes = new Set<string>();
+      for (const root of roots) await this.walk(expandPath(root), minSize, bySize, inodes, interrupt.signal);
+      const sameSize = [...bySize.values()].filter(g => g.length > 1);
+
+      const partial = await this.refine(sameSize, t("dupes.partial"), f => partialHash(f.path, f.size), interrupt.signal);
+      const needFull = [...partial.values()].filter(g => g[0].size > PARTIAL_HASH_BYTES * 2);
+      const full = await this.refine(needFull, t("dupes.full"), f => fullHash(f.path), interrupt.signal);
+      // 小檔案的部分雜湊已涵蓋全部內容，不需再算完整雜湊。
+      // 每一組的成員都已算出相同的雜湊，中止時回報的組一樣可靠，只是可能不完整
+      const verified = [...[...partial].filter(([, g]) => g[0].size <= PARTIAL_HASH_BYTES * 2), ...full];
+      for (const [key, members] of verified) {
+        const keeper = chooseKeeper(members);
+        groups.push({
+          hash: key.slice(key.indexOf(":") + 1),
+          size: members[0].size,
+          keeper: keeper.path,
+          copies: members.filter(m => m !== keeper).map(m => m.path).sort(),
+        });
+      }
+      this.cancelled = interrupt.signal.aborted;
+    } finally {
+      this.progress.stop();
+      interrupt.dispose();
+    }
+
+    groups.sort((a, b) => b.size * b.copies.length - a.size * a.copies.length);
+    for (const g of groups) this.options.onDuplicate?.(g);
+    return groups;
+  }
+}
+
+// ============================================================================
+// 殘留檔案掃描器
+// ============================================================================
+
+const ORPHAN_STALE_DAYS = 180;
+
+// 各位置信心度的起始分數；加總證據後 ≥ 70 為 high、≥ 45 為 medium，其餘為 low
+const BASE_SCORES: Record<Confidence, number> = { high: 60, medium: 45, low: 30 };
+const HIGH_SCORE = 70;
+const MEDIUM_SCORE = 45;
+
+const UUID_NAME = /^[0-9A-F]{8}-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{12}$/i;
+
+// 尚未評分的殘留項目；跨位置的證據要等所有位置掃描完才能計算
+interface OrphanCandidate {
+  entry: string;
+  path: string;
+  type: "file" | "directory";
+  size: number;
+  times: EntryTimes;
+  loc: ResidualLocation;
+  hint: AppMatch | null;
+}
+
+function confidenceForScore(score: number): Confidence {
+  return score >= HIGH_SCORE ? "high" : score >= MEDIUM_SCORE ? "medium" : "low";
+}
+
+class OrphanScanner {
+  private progress = new ProgressDisplay();
+  private sizes = new SizeCalculator();
+  private apps = new AppIndex();
+  private candidates: OrphanCandidate[] = [];
+  private scannedLocations: string[] = [];
+  private excluded: ExcludedEntry[] = [];
+  private config: AppConfig;
+  private options: ScanOptions;
+
+  constructor(config: AppConfig, options: ScanOptions = {}) {
+    this.config = config;
+    this.options = options;
+  }
+
+  private async getInstalledApps(): Promise<void> {
+    this.progress.start(t("files.loadingApps"));
+    this.apps = await AppIndex.build(this.config.appRoots);
+    this.progress.stop();
+    if (!this.options.quiet) console.log(`${colors.dim}${t("orphans.appsLoaded", { count: this.apps.size })}${colors.reset}`);
+  }
+
+  private isSystemItem(name: string): boolean {
+    const lower = name.toLowerCase();
+    return this.config.systemPrefixes.some(p => lower.startsWith(p.toLowerCase()) || lower === p.toLowerCase());
+  }
+
+  private extractAppName(name: string): string {
+    // Bundle ID 對應
+    const vendor = this.knownVendor(name);
+    if (vendor) return vendor;
+
+    // 從 bundle ID 提取
+    const parts = name.split(".");
+    if (parts.length >= 3) return parts[parts.length - 1];
+    return name;
+  }
+
+  // 殘留項目名稱去掉副檔名後的小寫形式，用來辨識同一個應用程式在不同位置的殘留
+  private ownerKey(entry: string): string {
+    return entry.replace(BUNDLE_ENTRY_SUFFIX, "").toLowerCase();
+  }
+
+  // 前綴須完全相同或在「.」處結束，com.foo 不會對應到 com.foobar；多個前綴符合時取最長者
+  private knownVendor(entry: string): string | null {
+    const lower = entry.toLowerCase();
+    const prefix = Object.keys(this.config.bundleMappings)
+      .filter(p => lower === p.toLowerCase() || lower.startsWith(`${p.toLowerCase()}.`))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? this.config.bundleMappings[prefix] : null;
+  }
+
+  private assess(c: OrphanCandidate, sightings: Map<string, Set<string>>): OrphanFile {
+    const evidence: OrphanEvidence[] = [];
+    const add = (weight: number, key: MessageKey, params?: MessageParams) => evidence.push({ weight, key, params, text: t(key, params) });
+
+    add(BASE_SCORES[c.loc.confidenceBase], "evidence.location", { category: c.loc.category, path: c.loc.path });
+
+    const isBundleId = c.entry.replace(BUNDLE_ENTRY_SUFFIX, "").split(".").length >= 3;
+    if (UUID_NAME.test(c.entry)) add(-15, "evidence.uuid");
+    else if (isBundleId) add(10, "evidence.bundleId");
+    else add(-10, "evidence.notBundleId");
+
+    if (c.hint) {
+      const owner = `${c.hint.app.name}${c.hint.app.bundleId ? ` (${c.hint.app.bundleId})` : ""}`;
+      add(-30, c.hint.via === "vendor" ? "evidence.sameVendor" : "evidence.sameTeam", { owner });
+    } else {
+      const vendor = this.knownVendor(c.entry);
+      if (vendor) add(10, "evidence.knownVendor", { vendor });
+    }
+
+    const idleDays = daysSinceUsed(c.times);
+    if (idleDays >= 365) add(20, "evidence.idle", { days: Math.floor(idleDays) });
+    else if (idleDays >= ORPHAN_STALE_DAYS) add(15, "evidence.idle", { days: Math.floor(idleDays) });
+    else if (idleDays < 7) add(-15, "evidence.recent");
+
+    const seenIn = sightings.get(this.ownerKey(c.entry));
+    if (seenIn && seenIn.size >= 2) add(10, "evidence.multipleLocations", { count: seenIn.size, locations: [...seenIn].join(t("common.enumSeparator")) });
+
+    const score = Math.max(0, Math.min(100, evidence.reduce((sum, e) => sum + e.weight, 0)));
+    const confidence = confidenceForScore(score);
+    // 有相關但非直接對應的應用程式時，說明中要交代，而不是宣稱完全找不到
+    const reasonKey: MessageKey = !c.hint ? "orphans.reason" : c.hint.via === "vendor" ? "orphans.reasonVendor" : "orphans.reasonTeam";
+    const reasonParams: MessageParams = c.hint ? { category: c.loc.category, owner: c.hint.app.name } : { category: c.loc.category };
+    return {
+      path: c.path,
+      type: c.type,
+      size: c.size,
+      appName: this.extractAppName(c.entry.replace(BUNDLE_ENTRY_SUFFIX, "")),
+      reason: t(reasonKey, reasonParams),
+      reasonKey,
+      reasonParams,
+      confidence,
+      score,
+      evidence,
+      category: c.loc.category,
+      ...c.times,
+    };
+  }
+
+  // 回傳此位置找到的殘留檔案總大小
+  private async scanLocation(loc: ResidualLocation, options: ScanOptions): Promise<number> {
+    const fullPath = expandPath(loc.path);
+    this.scannedLocations.push(fullPath);
+    let found = 0;
+
+    try {
+      const entries = await readdir(fullPath);
+      for (const entry of entries) {
+        if (options.signal?.aborted) break;
+        if (entry.startsWith(".")) continue;
+
+        const entryPath = join(fullPath, entry);
+
+        // 跳過系統項目
+        if (this.isSystemItem(entry)) continue;
+
+        // 跳過確定屬於已安裝應用程式的項目；較弱的線索留給評分
+        const hint = UUID_NAME.test(entry) ? null : this.apps.match(entry);
+        if (hint && DEFINITE_MATCHES.includes(hint.via)) continue;
+
+        // 跳過使用者排除的項目
+        const rule = this.config.exclusions.match(entryPath);
+        if (rule) {
+          this.excluded.push({ path: entryPath, rule });
+          continue;
+        }
+
+        // 計算大小
+        const { size, modifiedAt, accessedAt } = await this.sizes.sizeFor(entryPath, options);
+        if (size < 1024) continue; // 忽略 <1KB
+
+        const times = { modifiedAt, accessedAt };
+        if (this.options.maxAgeDays !== undefined && daysSinceUsed(times) < this.options.maxAgeDays) continue;
+
+        let type: "file" | "directory" = "file";
+        try {
+          const s = await stat(entryPath);
+          type = s.isDirectory() ? "directory" : "file";
+        } catch {}
+
+        this.candidates.push({ entry, path: entryPath, type, size, times, loc, hint });
+        found += size;
+      }
+    } catch {}
+    return found;
+  }
+
+  async scan(): Promise<ScanResult> {
+    if (!this.options.quiet) {
+      console.log(`\n${colors.bright}${colors.cyan}════════════════════════════════════════════════════════════════════════════════${colors.reset}`);
+      console.log(`${colors.bright}${colors.cyan}  ${t("orphans.scanTitle")}${colors.reset}`);
+      console.log(`${colors.bright}${colors.cyan}════════════════════════════════════════════════════════════════════════════════${colors.reset}\n`);
+    }
+
+    await this.getInstalledApps();
+
+    if (!this.options.quiet) console.log(`\n${colors.cyan}${t("orphans.scanningLocations", { count: this.config.residualLocations.length })}${colors.reset}\n`);
+
+    const locations = this.config.residualLocations;
+    const progress = new ScanProgress(t("orphans.progress"), locations.length, this.options.quiet);
+    const interrupt = interceptInterrupt(this.options.signal);
+    const options = { ...this.options, signal: interrupt.signal };
+
+    progress.start();
+    try {
+      await runPool(locations, this.options.concurrency ?? DEFAULT_SCAN_JOBS, async loc => {
+        const job = progress.begin(loc.category);
+        const found = await this.scanLocation(loc, options);
+        progress.finish(job, found);
+      }, interrupt.signal);
+    } finally {
+      progress.stop();
+      interrupt.dispose();
+    }
+
+    const sightings = new Map<string, Set<string>>();
+    for (const c of this.candidates) {
+      const key = this.ownerKey(c.entry);
+      if (!sightings.has(key)) sightings.set(key, new Set());
+      sightings.get(key)!.add(c.loc.category);
+    }
+    const orphans = this.candidates.map(c => this.assess(c, sightings));
+    orphans.sort((a, b) => b.size - a.size);
+    for (const o of orphans) this.options.onOrphan?.(o);
+    const totalSize = orphans.reduce((sum, o) => sum + o.size, 0);
+
+    if (!interrupt.signal.aborted && this.options.maxAgeDays === undefined && !this.options.apparentSize) {
+      await RunHistory.append(orphanScanRecord(orphans));
+    }
+
+    return {
+      orphans,
+      totalSize,
+      scannedLocations: this.scannedLocations,
+      excluded: this.excluded,
+      warnings: this.sizes.warnings,
+      cancelled: interrupt.signal.aborted,
+    };
+  }
+
+  printReport(result: ScanResult): void {
+    console.log("\n" + "═".repeat(80));
+    console.log(`${colors.bright}${colors.cyan}  ${t("orphans.reportTitle")}${colors.reset}`);
     console.log("═".repeat(80));
 
-    const items = Array.from(this.deleteQueue).map(i => this.items[i]);
-    const totalSize = items.reduce((sum, o) => sum + o.size, 0);
+    const high = result.orphans.filter(o => o.confidence === "high");
+    const medium = result.orphans.filter(o => o.confidence === "medium");
+    const low = result.orphans.filter(o => o.confidence === "low");
 
-    console.log(`\n即將刪除 ${items.length} 個項目:\n`);
-    items.slice(0, 10).forEach(item => {
-      console.log(`  ${colors.red}✗${colors.reset} ${item.name}`);
-      console.log(`    ${colors.dim}${item.path} (${formatSize(item.size)})${colors.reset}`);
-    });
-    if (items.length > 10) console.log(`  ${colors.dim}... 還有 ${items.length - 10} 個${colors.reset}`);
+    const sum = (list: OrphanFile[]) => formatSize(list.reduce((s, o) => s + o.size, 0));
+    console.log(`\n  ${t("orphans.found", { count: `${colors.yellow}${result.orphans.length}${colors.reset}` })}`);
+    console.log(`  ${t("orphans.cleanable", { size: `${colors.yellow}${formatSize(result.totalSize)}${colors.reset}` })}`);
 
-    console.log(`\n${colors.yellow}總計: ${formatSize(totalSize)}${colors.reset}`);
-    console.log(`\n${colors.red}${colors.bright}⚠️  無法復原！${colors.reset}`);
-    if (!this.hasSudo) {
-      console.log(`${colors.yellow}⚠️  無管理員權限，系統檔案可能刪除失敗${colors.reset}`);
+    console.log(`\n  ${colors.dim}${t("orphans.byConfidence")}${colors.reset}`);
+    console.log(`  ${colors.red}${t("orphans.high", { count: high.length, size: sum(high) })}${colors.reset}`);
+    console.log(`  ${colors.yellow}${t("orphans.medium", { count: medium.length, size: sum(medium) })}${colors.reset}`);
+    console.log(`  ${colors.dim}${t("orphans.low", { count: low.length, size: sum(low) })}${colors.reset}`);
+
+    printExcluded(result.excluded);
+    printWarnings(result.warnings);
+    printCancelled(result.cancelled);
+
+    if (result.orphans.length === 0) {
+      console.log(`\n${colors.green}${t("orphans.none")}${colors.reset}`);
     }
-    console.log(`\n按 ${colors.green}y${colors.reset} 確認，其他鍵取消`);
+  }
+}
+
+// ============================================================================
+// 主選單
+// ============================================================================
+
+interface MenuItem {
+  id: string;
+  label: string;
+  description: string;
+}
+
+const MENU_ITEMS: MenuItem[] = [
+  { id: "1", label: t("menu.orphans"), description: t("menu.orphansDesc") },
+  { id: "2", label: t("menu.cache"), description: t("menu.cacheDesc") },
+  { id: "3", label: t("menu.full"), description: t("menu.fullDesc") },
+  { id: "4", label: t("menu.projects"), description: t("menu.projectsDesc") },
+  { id: "5", label: t("menu.files"), description: t("menu.filesDesc") },
+  { id: "6", label: t("menu.dupes"), description: t("menu.dupesDesc") },
+  { id: "q", label: t("menu.quit"), description: t("menu.quitDesc") },
+];
 
-    return new Promise(resolve => {
-      process.stdin.setRawMode(true);
-      process.stdin.resume();
-      process.stdin.once("data", (key) => {
-        process.stdin.setRawMode(false);
-        resolve(key.toString().toLowerCase() === "y");
-      });
-    });
-  }
+class MainMenu {
+  private selectedIndex = 0;
 
-  private async executeDelete(): Promise<void> {
-    const items = Array.from(this.deleteQueue).map(i => this.items[i]);
-    console.log(`\n${colors.cyan}正在刪除...${colors.reset}\n`);
+  private clearScreen(): void { process.stdout.write("\x1b[2J\x1b[H"); }
+  private hideCursor(): void { process.stdout.write("\x1b[?25l"); }
+  private showCursor(): void { process.stdout.write("\x1b[?25h"); }
 
-    let success = 0, fail = 0, freed = 0;
-    for (const item of items) {
-      try {
-        const isContainer = item.path.includes("/Containers/") || item.path.includes("/Group Containers/");
-        const isSystemPath = item.path.startsWith("/Library");
-
-        if (isContainer) {
-          // Containers 受 SIP 保護，先嘗試刪除內部可刪除的內容
-          const dataPath = `${item.path}/Data`;
-          let partialSuccess = false;
-
-          try {
-            if (this.hasSudo) {
-              execSync(`sudo rm -rf "${dataPath}" 2>/dev/null`, { encoding: "utf-8" });
-            } else {
-              await rm(dataPath, { recursive: true, force: true });
-            }
-            partialSuccess = true;
-          } catch {}
-
-          // 嘗試刪除整個資料夾
-          try {
-            if (this.hasSudo) {
-              execSync(`sudo rm -rf "${item.path}"`, { encoding: "utf-8" });
-            } else {
-              await rm(item.path, { recursive: true, force: true });
-            }
-            console.log(`${colors.green}✓${colors.reset} ${item.path}`);
-            success++; freed += item.size;
-          } catch {
-            if (partialSuccess) {
-              console.log(`${colors.yellow}◐${colors.reset} ${item.path} ${colors.dim}(已清空內容，外殼受 SIP 保護)${colors.reset}`);
-              success++; freed += item.size;
-            } else {
-              console.log(`${colors.red}✗${colors.reset} ${item.path} ${colors.dim}(SIP 保護)${colors.reset}`);
-              fail++;
-            }
-          }
-        } else if (isSystemPath && this.hasSudo) {
-          execSync(`sudo rm -rf "${item.path}"`, { encoding: "utf-8" });
-          console.log(`${colors.green}✓${colors.reset} ${item.path}`);
-          success++; freed += item.size;
-        } else {
-          await rm(item.path, { recursive: true, force: true });
-          console.log(`${colors.green}✓${colors.reset} ${item.path}`);
-          success++; freed += item.size;
-        }
-      } catch (err) {
-        console.log(`${colors.red}✗${colors.reset} ${item.path} - ${(err as Error).message}`);
-        fail++;
+  private render(hasSudo: boolean): void {
+    this.clearScreen();
+    console.log(`${colors.bright}${colors.cyan}════════════════════════════════════════════════════════════════════════════════${colors.reset}`);
+    console.log(`${colors.bright}${colors.cyan}  ${t("menu.title")}${colors.reset}`);
+    console.log(`${colors.bright}${colors.cyan}════════════════════════════════════════════════════════════════════════════════${colors.reset}`);
+    console.log(`\n  ${colors.dim}${t("menu.help")}${colors.reset}`);
+    console.log(`  ${hasSudo ? colors.green + t("menu.admin") : colors.yellow + t("menu.user")}${colors.reset}\n`);
+
+    for (let i = 0; i < MENU_ITEMS.length; i++) {
+      const item = MENU_ITEMS[i];
+      const isSelected = i === this.selectedIndex;
+      if (isSelected) {
+        console.log(`  ${colors.cyan}▶${colors.reset} ${colors.bgBlue}${colors.bright} ${item.label} ${colors.reset}`);
+      } else {
+        console.log(`    ${colors.dim}${item.label}${colors.reset}`);
       }
     }
 
-    console.log(`\n${"─".repeat(40)}`);
-    console.log(`${colors.green}成功: ${success}${colors.reset}${fail > 0 ? ` | ${colors.red}失敗: ${fail}${colors.reset}` : ""}`);
-    console.log(`${colors.yellow}釋放: ${formatSize(freed)}${colors.reset}`);
-    await this.waitForKey();
-  }
-
-  private waitForKey(): Promise<void> {
-    console.log(`\n${colors.dim}按任意鍵繼續...${colors.reset}`);
-    return new Promise(resolve => {
-      process.stdin.setRawMode(true);
-      process.stdin.resume();
-      process.stdin.once("data", () => { process.stdin.setRawMode(false); resolve(); });
-    });
+    console.log(`\n  ${colors.dim}─────────────────────────────────${colors.reset}`);
+    console.log(`  ${colors.yellow}${MENU_ITEMS[this.selectedIndex].description}${colors.reset}`);
   }
 
-  async start(): Promise<void> {
-    if (this.items.length === 0) {
-      console.log(`\n${colors.green}沒有發現項目！${colors.reset}`);
-      return;
-    }
-
+  async show(hasSudo: boolean): Promise<string> {
     this.hideCursor();
     process.stdin.setRawMode(true);
     process.stdin.resume();
     process.stdin.setEncoding("utf8");
-    this.render();
+    this.render(hasSudo);
 
     return new Promise(resolve => {
-      const handleKey = async (key: Buffer) => {
+      const handleKey = (key: Buffer) => {
         const k = key.toString();
-        const filtered = this.filteredItems;
 
-        if (k === "\x1b" || k === "q" || k === "Q") {
+        if (k === "\x1b" && key.length === 1) {
           this.showCursor();
           process.stdin.setRawMode(false);
           process.stdin.removeListener("data", handleKey);
-          this.clearScreen();
-          resolve();
+          resolve("q");
           return;
         }
 
         if (k === "\x1b[A" || k === "k") {
-          this.selectedIndex = Math.max(0, this.selectedIndex - 1);
-          this.render();
+          this.selectedIndex = (this.selectedIndex - 1 + MENU_ITEMS.length) % MENU_ITEMS.length;
+          this.render(hasSudo);
         } else if (k === "\x1b[B" || k === "j") {
-          this.selectedIndex = Math.min(filtered.length - 1, this.selectedIndex + 1);
-          this.render();
-        } else if (k === " ") {
-          const realIdx = this.items.indexOf(filtered[this.selectedIndex]);
-          if (realIdx >= 0) {
-            this.deleteQueue.has(realIdx) ? this.deleteQueue.delete(realIdx) : this.deleteQueue.add(realIdx);
-          }
-          this.render();
+          this.selectedIndex = (this.selectedIndex + 1) % MENU_ITEMS.length;
+          this.render(hasSudo);
         } else if (k === "\r" || k === "\n") {
+          this.showCursor();
           process.stdin.setRawMode(false);
           process.stdin.removeListener("data", handleKey);
-          if (await this.confirmDelete()) {
-            await this.executeDelete();
-            this.showCursor();
-            resolve();
-            return;
-          }
-          process.stdin.setRawMode(true);
-          process.stdin.on("data", handleKey);
-          this.render();
-        } else if (k === "a" || k === "A") {
-          const allSel = filtered.every(o => this.deleteQueue.has(this.items.indexOf(o)));
-          filtered.forEach(o => {
-            const idx = this.items.indexOf(o);
-            allSel ? this.deleteQueue.delete(idx) : this.deleteQueue.add(idx);
-          });
-          this.render();
-        } else if (k === "1") {
-          this.filterConfidence = this.filterConfidence === "high" ? "all" : "high";
-          this.selectedIndex = 0; this.scrollOffset = 0;
-          this.render();
-        } else if (k === "2") {
-          this.filterConfidence = this.filterConfidence === "medium" ? "all" : "medium";
-          this.selectedIndex = 0; this.scrollOffset = 0;
-          this.render();
-        } else if (k === "3") {
-          this.filterConfidence = this.filterConfidence === "low" ? "all" : "low";
-          this.selectedIndex = 0; this.scrollOffset = 0;
-          this.render();
-        } else if (k === "0") {
-          this.filterConfidence = "all";
-          this.selectedIndex = 0; this.scrollOffset = 0;
-          this.render();
+          this.clearScreen();
+          resolve(MENU_ITEMS[this.selectedIndex].id);
+        } else if (MENU_ITEMS.some(m => m.id === k && m.id !== "q")) {
+          this.showCursor();
+          process.stdin.setRawMode(false);
+          process.stdin.removeListener("data", handleKey);
+          this.clearScreen();
+          resolve(k);
+        } else if (k === "q" || k === "Q") {
+          this.showCursor();
+          process.stdin.setRawMode(false);
+          process.stdin.removeListener("data", handleKey);
+          resolve("q");
         }
       };
 
@@ -547,338 +5610,1136 @@ class InteractiveSelector {
 }
 
 // ============================================================================
-// 快取清理掃描器
+// 結構化輸出（JSON / NDJSON）
 // ============================================================================
 
-class CleanupScanner {
-  private progress = new ProgressDisplay();
+// 結構版本：僅新增欄位時不變；欄位更名、移除或語意改變時遞增
+const OUTPUT_SCHEMA_VERSION = 1;
+
+type OutputFormat = "text" | "json" | "ndjson";
+
+function serializeOrphan(o: OrphanFile) {
+  return {
+    path: o.path,
+    type: o.type,
+    size: o.size,
+    appName: o.appName,
+    reason: o.reason,
+    reasonKey: o.reasonKey,
+    reasonParams: o.reasonParams,
+    confidence: o.confidence,
+    score: o.score,
+    evidence: o.evidence,
+    category: o.category,
+    modifiedAt: new Date(o.modifiedAt).toISOString(),
+    accessedAt: new Date(o.accessedAt).toISOString(),
+  };
+}
+
+function serializeCleanupItem(i: CleanupItem) {
+  return {
+    task: i.task.name,
+    description: i.task.description,
+    descriptionKey: i.task.descriptionKey ?? null,
+    maxAgeDays: i.task.maxAgeDays ?? null,
+    keepLatest: i.task.keepLatest ?? null,
+    paths: i.paths.map((p, idx) => ({
+      path: p,
+      size: i.sizes[idx],
+      modifiedAt: new Date(i.times[idx].modifiedAt).toISOString(),
+      accessedAt: new Date(i.times[idx].accessedAt).toISOString(),
+    })),
+    commands: i.task.commands ?? [],
+    provider: i.provider ? { name: i.provider.name, needsSudo: i.provider.needsSudo } : null,
+    targets: (i.targets ?? []).map(t => ({
+      id: t.id,
+      name: t.name,
+      path: t.path ?? null,
+      size: t.size ?? 0,
+      category: t.category ?? null,
+      clean: i.provider?.describe(t) ?? null,
+    })),
+    kept: i.kept ?? [],
+    totalSize: i.totalSize,
+  };
+}
+
+function serializePlan(p: DeletionPlan) {
+  return {
+    name: p.item.name,
+    path: p.item.path,
+    branch: p.branch,
+    blockedBy: p.blockedBy ?? null,
+    skipped: p.skippedKey ? { key: p.skippedKey, message: t(p.skippedKey) } : null,
+    steps: p.steps.map(step => ({ kind: step.kind, command: describeStep(step), optional: step.optional })),
+    bytes: p.bytes,
+  };
+}
+
+function serializeProject(p: ProjectItem) {
+  return {
+    name: p.name,
+    root: p.root,
+    artifacts: p.artifacts,
+    totalSize: p.totalSize,
+    lastActivity: new Date(p.lastActivity).toISOString(),
+    activitySource: p.activitySource,
+  };
+}
+
+function serializePersonalFile(f: PersonalFile) {
+  return {
+    path: f.path,
+    size: f.size,
+    kind: f.kind,
+    modifiedAt: new Date(f.modifiedAt).toISOString(),
+    accessedAt: new Date(f.accessedAt).toISOString(),
+    installedApp: f.installedApp ?? null,
+  };
+}
+
+// 重複檔案組的成員可刪除量：保留一份，其餘皆可釋放
+function reclaimableSize(g: DuplicateGroup): number {
+  return g.size * g.copies.length;
+}
+
+function serializeDuplicateGroup(g: DuplicateGroup) {
+  return { hash: g.hash, size: g.size, keeper: g.keeper, copies: g.copies, reclaimable: reclaimableSize(g) };
+}
+
+// 排除的項目附上與刪除時相同的訊息 key，方便與 deleteResult 的 errorKey 對照
+function serializeExcluded(e: ExcludedEntry) {
+  return { ...e, ...translated("delete.excluded", { rule: e.rule }) };
+}
+
+function serializeScanResult(r: ScanResult) {
+  return {
+    orphans: r.orphans.map(serializeOrphan),
+    totalSize: r.totalSize,
+    scannedLocations: r.scannedLocations,
+    excluded: r.excluded.map(serializeExcluded),
+    warnings: r.warnings,
+    cancelled: r.cancelled,
+  };
+}
+
+/**
+ * json：結束時輸出單一文件
+ *   { schemaVersion, tool, command, generatedAt, orphanScan?, cacheScan?, projectScan?, fileScan?, duplicateScan?, plan?, cleanup?, warnings?, error?, exitCode }
+ *
+ * ndjson：每行一個事件，皆帶有 schemaVersion 與 type
+ *   start → cacheItem / project（掃描中即時輸出）/ orphan / file / duplicateGroup（掃描完成後輸出）
+ *   → orphanScan / cacheScan / projectScan / fileScan / duplicateScan（摘要）
+ *   → planItem → plan（試執行）或 deleteResult → cleanup → error? → end
+ */
+class StructuredOutput {
+  private format: "json" | "ndjson";
+  private document: Record<string, unknown>;
+
+  constructor(format: "json" | "ndjson", command: string) {
+    this.format = format;
+    const generatedAt = new Date().toISOString();
+    // 文字欄位（reason、evidence／warnings／excluded 的 text、錯誤訊息）依此語系輸出；需要穩定識別時請用對應的 key 與 params 欄位
+    this.document = { schemaVersion: OUTPUT_SCHEMA_VERSION, tool: "mac-clean-ts", command, generatedAt, locale: LOCALE };
+    this.emit("start", { command, generatedAt, locale: LOCALE });
+  }
+
+  private emit(type: string, payload: Record<string, unknown>): void {
+    if (this.format !== "ndjson") return;
+    process.stdout.write(JSON.stringify({ schemaVersion: OUTPUT_SCHEMA_VERSION, type, ...payload }) + "\n");
+  }
+
+  orphan(o: OrphanFile): void {
+    this.emit("orphan", { orphan: serializeOrphan(o) });
+  }
+
+  cacheItem(i: CleanupItem): void {
+    this.emit("cacheItem", { item: serializeCleanupItem(i) });
+  }
+
+  project(p: ProjectItem): void {
+    this.emit("project", { project: serializeProject(p) });
+  }
 
-  private async expandGlob(pattern: string): Promise<string[]> {
-    const base = expandPath(pattern.replace(/\/\*$/, ""));
-    if (!pattern.endsWith("/*")) {
-      return await pathExists(base) ? [base] : [];
+  file(f: PersonalFile): void {
+    this.emit("file", { file: serializePersonalFile(f) });
+  }
+
+  duplicateGroup(g: DuplicateGroup): void {
+    this.emit("duplicateGroup", { group: serializeDuplicateGroup(g) });
+  }
+
+  deleteResult(r: DeleteResult): void {
+    this.emit("deleteResult", { result: r });
+  }
+
+  orphanScan(result: ScanResult): void {
+    this.document.orphanScan = serializeScanResult(result);
+    this.emit("orphanScan", {
+      count: result.orphans.length,
+      totalSize: result.totalSize,
+      scannedLocations: result.scannedLocations,
+      excluded: result.excluded.map(serializeExcluded),
+      warnings: result.warnings,
+      cancelled: result.cancelled,
+    });
+  }
+
+  cacheScan(items: CleanupItem[], scanner: CleanupScanner): void {
+    const totalSize = items.reduce((s, i) => s + i.totalSize, 0);
+    const { warnings, cancelled } = scanner;
+    const excluded = scanner.excluded.map(serializeExcluded);
+    this.document.cacheScan = { items: items.map(serializeCleanupItem), totalSize, excluded, warnings, cancelled };
+    this.emit("cacheScan", { count: items.length, totalSize, excluded, warnings, cancelled });
+  }
+
+  projectScan(projects: ProjectItem[], scanner: ProjectScanner): void {
+    const totalSize = projects.reduce((s, p) => s + p.totalSize, 0);
+    const { warnings, cancelled } = scanner;
+    const excluded = scanner.excluded.map(serializeExcluded);
+    this.document.projectScan = { projects: projects.map(serializeProject), totalSize, excluded, warnings, cancelled };
+    this.emit("projectScan", { count: projects.length, totalSize, excluded, warnings, cancelled });
+  }
+
+  fileScan(files: PersonalFile[], scanner: PersonalFileScanner): void {
+    const totalSize = files.reduce((s, f) => s + f.size, 0);
+    const { warnings, cancelled } = scanner;
+    const excluded = scanner.excluded.map(serializeExcluded);
+    this.document.fileScan = { files: files.map(serializePersonalFile), totalSize, excluded, warnings, cancelled };
+    this.emit("fileScan", { count: files.length, totalSize, excluded, warnings, cancelled });
+  }
+
+  duplicateScan(groups: DuplicateGroup[], scanner: DuplicateScanner): void {
+    const totalSize = groups.reduce((s, g) => s + reclaimableSize(g), 0);
+    const { warnings, cancelled } = scanner;
+    const excluded = scanner.excluded.map(serializeExcluded);
+    this.document.duplicateScan = { groups: groups.map(serializeDuplicateGroup), totalSize, excluded, warnings, cancelled };
+    this.emit("duplicateScan", { count: groups.length, totalSize, excluded, warnings, cancelled });
+  }
+
+  plan(plans: DeletionPlan[]): void {
+    const items = plans.map(serializePlan);
+    for (const item of items) this.emit("planItem", { item });
+    const totalBytes = plans.filter(p => !p.blockedBy && !p.skippedKey).reduce((s, p) => s + p.bytes, 0);
+    this.document.plan = { dryRun: true, items, totalBytes };
+    this.emit("plan", { dryRun: true, count: plans.length, totalBytes });
+  }
+
+  cleanup(summary: DeleteSummary): void {
+    this.document.cleanup = summary;
+    this.emit("cleanup", { success: summary.success, fail: summary.fail, skipped: summary.skipped, freed: summary.freed, moved: summary.moved });
+  }
+
+  // 其他指令（例如 restore、purge）的結果
+  section(name: string, data: Record<string, unknown>): void {
+    this.document[name] = data;
+    this.emit(name, data);
+  }
+
+  // 不影響執行的問題，例如載入失敗的外掛
+  warning(warning: Message): void {
+    this.document.warnings = [...(this.document.warnings as Message[] | undefined ?? []), warning];
+    this.emit("warning", { warning });
+  }
+
+  // 以訊息 key 建立的錯誤附上 key 與參數
+  error(err: Error): void {
+    const error = err instanceof MessageError
+      ? { message: err.message, key: err.key, ...(err.params ? { params: err.params } : {}) }
+      : { message: err.message };
+    this.document.error = error;
+    this.emit("error", error);
+  }
+
+  finish(exitCode: number): void {
+    if (this.format === "json") {
+      process.stdout.write(JSON.stringify({ ...this.document, exitCode }, null, 2) + "\n");
+    } else {
+      this.emit("end", { exitCode });
     }
-    try {
-      const entries = await readdir(base);
-      const result: string[] = [];
-      for (const e of entries) {
-        const full = join(base, e);
-        if (await pathExists(full)) result.push(full);
-      }
-      return result;
-    } catch { return []; }
-  }
-
-  async scan(tasks: CleanupTask[]): Promise<CleanupItem[]> {
-    console.log(`\n${colors.bright}${colors.cyan}════════════════════════════════════════════════════════════════════════════════${colors.reset}`);
-    console.log(`${colors.bright}${colors.cyan}  🔍 掃描開發環境快取${colors.reset}`);
-    console.log(`${colors.bright}${colors.cyan}════════════════════════════════════════════════════════════════════════════════${colors.reset}\n`);
-
-    const items: CleanupItem[] = [];
-    const enabled = tasks.filter(t => t.enabled);
-
-    for (const task of enabled) {
-      this.progress.start(`掃描 ${task.name}...`);
-      const allPaths: string[] = [];
-      let totalSize = 0;
-
-      for (const pattern of task.paths) {
-        const paths = await this.expandGlob(pattern);
-        for (const p of paths) {
-          this.progress.update(`掃描 ${task.name}... ${colors.dim}${basename(p)}${colors.reset}`);
-          const size = getSize(p);
-          if (size > 0) {
-            allPaths.push(p);
-            totalSize += size;
-          }
-        }
-      }
+  }
+}
 
-      this.progress.stop();
-      if (totalSize > 0) {
-        items.push({ task, paths: allPaths, totalSize });
+// ============================================================================
+// 命令列介面
+// ============================================================================
+
+const EXIT_OK = 0;
+const EXIT_ERROR = 1;
+const EXIT_FOUND = 2;
+const EXIT_INTERRUPTED = 130;
+
+const CLI_USAGE = t("cli.usage", {
+  minSize: PERSONAL_MIN_SIZE_MB,
+  dupeMinSize: DUPLICATE_MIN_SIZE_KB,
+  jobs: DEFAULT_SCAN_JOBS,
+  schemaVersion: OUTPUT_SCHEMA_VERSION,
+});
+
+interface CliOptions {
+  command: string[];
+  tasks: string[];
+  all: boolean;
+  yes: boolean;
+  sudo: "auto" | "always" | "never";
+  tty: boolean;
+  confidence: Confidence;
+  format: OutputFormat;
+  dryRun: boolean;
+  removal: RemovalMode;
+  olderThan?: number;
+  // stats 計算快取成長的期間（毫秒）
+  since?: number;
+  configPath?: string;
+  maxAgeDays?: number;
+  apparentSize: boolean;
+  sizeTimeoutMs?: number;
+  jobs?: number;
+  workspaces: string[];
+  minSizeMB?: number;
+  help: boolean;
+}
+
+const GROUP_COMMANDS = ["orphans", "cache", "projects", "files", "dupes"];
+
+const CONFIDENCE_RANK: Record<Confidence, number> = { high: 3, medium: 2, low: 1 };
+
+function parseCliArgs(argv: string[]): CliOptions {
+  const opts: CliOptions = {
+    command: [],
+    tasks: [],
+    all: false,
+    yes: false,
+    sudo: "auto",
+    tty: Boolean(process.stdin.isTTY && process.stdout.isTTY),
+    confidence: "high",
+    format: "text",
+    dryRun: false,
+    removal: "delete",
+    apparentSize: false,
+    workspaces: [],
+    help: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const eq = arg.startsWith("--") ? arg.indexOf("=") : -1;
+    const flag = eq > 0 ? arg.slice(0, eq) : arg;
+    const value = (): string => {
+      const v = eq > 0 ? arg.slice(eq + 1) : argv[++i];
+      if (v === undefined || v === "" || v.startsWith("-")) throw new MessageError("cli.needsValue", { flag });
+      return v;
+    };
+
+    switch (flag) {
+      case "-t":
+      case "--task":
+        opts.tasks.push(...value().split(",").map(s => s.trim()).filter(Boolean));
+        break;
+      case "-a":
+      case "--all":
+        opts.all = true;
+        break;
+      case "-y":
+      case "--yes":
+        opts.yes = true;
+        break;
+      case "--sudo":
+        opts.sudo = "always";
+        break;
+      case "--no-sudo":
+        opts.sudo = "never";
+        break;
+      case "--no-tty":
+        opts.tty = false;
+        break;
+      case "--confidence": {
+        const v = value();
+        if (!(v in CONFIDENCE_RANK)) throw new MessageError("cli.badConfidence", { value: v });
+        opts.confidence = v as Confidence;
+        break;
+      }
+      case "--format": {
+        const v = value();
+        if (v !== "text" && v !== "json" && v !== "ndjson") throw new MessageError("cli.badFormat", { value: v });
+        opts.format = v;
+        break;
+      }
+      case "--lang": {
+        // 語系在載入時已由 detectLocale 套用，這裡只負責驗證
+        const v = value();
+        if (!isLocale(v)) throw new MessageError("cli.badLang", { value: v, locales: LOCALES.join(", ") });
+        break;
+      }
+      case "-n":
+      case "--dry-run":
+        opts.dryRun = true;
+        break;
+      case "--quarantine":
+        opts.removal = "quarantine";
+        break;
+      case "--trash":
+        opts.removal = "trash";
+        break;
+      case "--older-than":
+        opts.olderThan = parseDuration(value());
+        break;
+      case "--since":
+        opts.since = parseDuration(value());
+        break;
+      case "--max-age": {
+        const v = Number(value());
+        if (!Number.isFinite(v) || v < 0) throw new MessageError("cli.badDays", { value: v });
+        opts.maxAgeDays = v;
+        break;
+      }
+      case "-w":
+      case "--workspace":
+        opts.workspaces.push(...value().split(",").map(s => s.trim()).filter(Boolean));
+        break;
+      case "--min-size": {
+        const v = Number(value());
+        if (!Number.isFinite(v) || v < 0) throw new MessageError("cli.badSize", { value: v });
+        opts.minSizeMB = v;
+        break;
+      }
+      case "-j":
+      case "--jobs": {
+        const v = Number(value());
+        if (!Number.isInteger(v) || v < 1) throw new MessageError("cli.badCount", { value: v });
+        opts.jobs = v;
+        break;
+      }
+      case "--apparent-size":
+        opts.apparentSize = true;
+        break;
+      case "--size-timeout": {
+        const v = Number(value());
+        if (!Number.isFinite(v) || v <= 0) throw new MessageError("cli.badSeconds", { value: v });
+        opts.sizeTimeoutMs = v * 1000;
+        break;
       }
+      case "-c":
+      case "--config":
+        opts.configPath = value();
+        break;
+      case "--json":
+        opts.format = "json";
+        break;
+      case "--ndjson":
+        opts.format = "ndjson";
+        break;
+      case "-h":
+      case "--help":
+        opts.help = true;
+        break;
+      default:
+        if (arg.startsWith("-")) throw new MessageError("cli.unknownOption", { option: arg });
+        opts.command.push(arg);
     }
+  }
 
-    return items;
+  return opts;
+}
+
+async function resolveCliSudo(opts: CliOptions): Promise<boolean> {
+  if (opts.sudo === "never") return false;
+  if (checkSudo()) return true;
+  if (opts.sudo === "auto") return false;
+  if (!opts.tty) throw new MessageError("cli.sudoNoTty");
+  try {
+    execSync("sudo -v", { stdio: "inherit" });
+    return true;
+  } catch {
+    throw new MessageError("cli.sudoFailed");
   }
 }
 
-// ============================================================================
-// 殘留檔案掃描器
-// ============================================================================
+function enabledProviders(config: AppConfig): CleanupProvider[] {
+  return config.providers.filter(p => p.enabled);
+}
 
-class OrphanScanner {
-  private progress = new ProgressDisplay();
-  private installedApps = new Set<string>();
-  private orphans: OrphanFile[] = [];
-  private scannedLocations: string[] = [];
+function selectProviders(opts: CliOptions, config: AppConfig): CleanupProvider[] {
+  if (opts.tasks.length === 0) return enabledProviders(config);
 
-  private async getInstalledApps(): Promise<void> {
-    this.progress.start("載入已安裝應用程式...");
+  // 明確指定的任務即使預設停用也會執行；以舊名稱指定時一併包含自它拆出的任務
+  const selected = opts.tasks.flatMap(name => {
+    const provider = config.providers.find(p => p.name.toLowerCase() === name.toLowerCase());
+    if (!provider) {
+      throw new MessageError("cli.taskNotFound", { name, tasks: config.providers.map(p => p.name).join(", ") });
+    }
+    const split = config.tasks.filter(t => t.splitFrom?.toLowerCase() === name.toLowerCase());
+    return [provider, ...config.providers.filter(p => split.some(t => t.name === p.name))];
+  });
+  return [...new Set(selected)];
+}
 
-    // Spotlight 搜索
-    try {
-      const apps = execSync('mdfind "kMDItemKind == \'Application\'" 2>/dev/null', { encoding: "utf-8", maxBuffer: 50 * 1024 * 1024 });
-      for (const line of apps.split("\n")) {
-        const name = basename(line).replace(/\.app$/, "");
-        if (name) this.installedApps.add(name.toLowerCase());
-      }
-    } catch {}
+// 只有指令沒有路徑的任務（例如 DNS Cache）掃描不到大小，以動作呈現
+function cacheItemsToSelectable(items: CleanupItem[]): SelectableItem[] {
+  return items.flatMap(i => {
+    if (isCommandOnly(i)) {
+      return [{
+        name: i.task.name,
+        path: "",
+        size: 0,
+        category: t("cache.actionCategory"),
+        detail: i.task.description,
+        commands: i.task.commands,
+        needsSudo: i.provider?.needsSudo,
+        action: true,
+      }];
+    }
+    const own: SelectableItem[] = i.paths.length === 0 && !i.task.commands?.length ? [] : [{
+      name: i.task.name,
+      path: i.paths[0] || "",
+      size: i.sizes.reduce((s, n) => s + n, 0),
+      detail: i.kept
+        ? t("cache.keptDetail", { description: i.task.description, count: i.paths.length, kept: i.kept.length })
+        : t("cache.pathsDetail", { description: i.task.description, count: i.paths.length }),
+      cleanup: i,
+      modifiedAt: Math.max(0, ...i.times.map(x => x.modifiedAt)),
+      accessedAt: Math.max(0, ...i.times.map(x => x.accessedAt)),
+      needsSudo: i.provider?.needsSudo,
+    }];
+    const provider = i.provider;
+    if (!provider) return own;
+    return [...own, ...(i.targets ?? []).map(target => providerTargetToSelectable(provider, target))];
+  });
+}
 
-    // Homebrew
-    try {
-      const brew = execSync("brew list --cask 2>/dev/null", { encoding: "utf-8" });
-      brew.split("\n").forEach(n => n.trim() && this.installedApps.add(n.trim().toLowerCase()));
-    } catch {}
+function isCommandOnly(item: CleanupItem): boolean {
+  return item.paths.length === 0 && !item.targets?.length && !!item.task.commands?.length;
+}
 
-    // pkgutil
-    try {
-      const pkgs = execSync("pkgutil --pkgs 2>/dev/null", { encoding: "utf-8" });
-      for (const pkg of pkgs.split("\n")) {
-        const parts = pkg.split(".");
-        if (parts.length >= 2) {
-          const name = parts[parts.length - 1].toLowerCase();
-          if (name && name.length > 2) this.installedApps.add(name);
-        }
-      }
-    } catch {}
+// provider 以 clean() 移除的目標各自成為一個項目，例如個別的 Docker 映像檔或容器
+function providerTargetToSelectable(provider: CleanupProvider, target: ProviderTarget): SelectableItem {
+  const how = provider.describe(target);
+  return {
+    name: `${provider.name}: ${target.name}`,
+    path: target.path ?? "",
+    size: target.size ?? 0,
+    category: target.category,
+    detail: target.category ? t("provider.removeWithCategory", { category: target.category, how }) : t("provider.removeWith", { how }),
+    target: { provider, target },
+    needsSudo: provider.needsSudo,
+  };
+}
 
-    this.progress.stop();
-    console.log(`${colors.dim}已載入 ${this.installedApps.size} 個已安裝應用程式${colors.reset}`);
+// 每個專案一個項目，刪除時逐一移除其下的建置產物
+function projectsToSelectable(projects: ProjectItem[]): SelectableItem[] {
+  return projects.map(p => {
+    const times = { modifiedAt: p.lastActivity, accessedAt: p.lastActivity };
+    const task: CleanupTask = {
+      name: p.name,
+      description: p.root,
+      paths: p.artifacts.map(a => a.path),
+      enabled: true,
+    };
+    return {
+      name: p.name,
+      path: p.root,
+      size: p.totalSize,
+      category: t("common.days", { n: Math.floor((Date.now() - p.lastActivity) / 86400e3) }),
+      detail: t("projects.detail", {
+        kinds: [...new Set(p.artifacts.map(a => a.kind))].join(t("common.enumSeparator")),
+        source: t(p.activitySource === "git" ? "projects.sourceGit" : "projects.sourceMtime"),
+      }),
+      cleanup: { task, paths: task.paths, sizes: p.artifacts.map(a => a.size), times: p.artifacts.map(() => times), totalSize: p.totalSize },
+      ...times,
+    };
+  });
+}
+
+function printProjects(projects: ProjectItem[]): void {
+  const total = projects.reduce((s, p) => s + p.totalSize, 0);
+  console.log(`\n${t("projects.summary", { count: `${colors.yellow}${projects.length}${colors.reset}`, size: `${colors.yellow}${formatSize(total)}${colors.reset}` })}\n`);
+  for (const p of projects) {
+    const idle = Math.floor((Date.now() - p.lastActivity) / 86400e3);
+    console.log(`  ${colors.yellow}${formatSize(p.totalSize).padStart(10)}${colors.reset}  ${padDisplay(t("common.days", { n: idle }), 8, "start")}  ${p.root}`);
+    for (const a of p.artifacts) {
+      console.log(`  ${colors.dim}${formatSize(a.size).padStart(10)}         ${basename(a.path)} (${a.kind})${colors.reset}`);
+    }
+  }
+}
+
+function filesToSelectable(files: PersonalFile[]): SelectableItem[] {
+  return files.map(f => ({
+    name: basename(f.path),
+    path: f.path,
+    size: f.size,
+    category: FILE_KIND_LABELS[f.kind],
+    detail: f.installedApp ? t("files.installedDetail", { app: f.installedApp }) : undefined,
+    // 對應應用程式已安裝的安裝檔標為高信心度，可用 1 鍵篩選
+    confidence: f.installedApp ? "high" : undefined,
+    modifiedAt: f.modifiedAt,
+    accessedAt: f.accessedAt,
+  }));
+}
+
+function printPersonalFiles(files: PersonalFile[]): void {
+  const total = files.reduce((s, f) => s + f.size, 0);
+  console.log(`\n${t("files.summary", { count: `${colors.yellow}${files.length}${colors.reset}`, size: `${colors.yellow}${formatSize(total)}${colors.reset}` })}\n`);
+  const kindWidth = Math.max(...Object.values(FILE_KIND_LABELS).map(displayWidth));
+  for (const f of files) {
+    const flag = f.installedApp ? `  ${colors.green}${t("files.installed", { app: f.installedApp })}${colors.reset}` : "";
+    console.log(`  ${padDisplay(FILE_KIND_LABELS[f.kind], kindWidth)} ${colors.yellow}${formatSize(f.size).padStart(10)}${colors.reset}  ${f.path}${flag}`);
+  }
+}
+
+// 每組的保留項排在最前，以 ★ 標示；選擇器不允許標記整組
+function duplicatesToSelectable(groups: DuplicateGroup[]): SelectableItem[] {
+  return groups.flatMap((g, i) => [
+    {
+      name: `★ ${basename(g.keeper)}`,
+      path: g.keeper,
+      size: g.size,
+      category: t("dupes.group", { n: i + 1 }),
+      detail: t("dupes.keeperDetail", { count: g.copies.length }),
+      group: g.hash,
+      duplicates: g.copies,
+      keeper: true,
+    },
+    ...g.copies.map(path => ({
+      name: basename(path),
+      path,
+      size: g.size,
+      category: t("dupes.group", { n: i + 1 }),
+      detail: t("dupes.copyDetail", { keeper: g.keeper }),
+      group: g.hash,
+      duplicates: [g.keeper, ...g.copies.filter(c => c !== path)],
+    })),
+  ]);
+}
+
+function printDuplicates(groups: DuplicateGroup[]): void {
+  const total = groups.reduce((s, g) => s + reclaimableSize(g), 0);
+  console.log(`\n${t("dupes.summary", { count: `${colors.yellow}${groups.length}${colors.reset}`, size: `${colors.yellow}${formatSize(total)}${colors.reset}` })}\n`);
+  for (const [i, g] of groups.entries()) {
+    console.log(`  ${colors.bright}${t("dupes.group", { n: i + 1 })}${colors.reset}  ${colors.yellow}${formatSize(g.size)}${colors.reset} × ${g.copies.length + 1}  ${colors.dim}${g.hash.slice(0, 12)}${colors.reset}`);
+    console.log(`    ${colors.green}★ ${g.keeper}${colors.reset}`);
+    for (const c of g.copies) console.log(`      ${c}`);
+  }
+}
+
+function orphansToSelectable(orphans: OrphanFile[]): SelectableItem[] {
+  return orphans.map(o => ({
+    name: o.appName,
+    path: o.path,
+    size: o.size,
+    detail: o.reason,
+    confidence: o.confidence,
+    score: o.score,
+    evidence: o.evidence,
+    category: o.category,
+    modifiedAt: o.modifiedAt,
+    accessedAt: o.accessedAt,
+  }));
+}
+
+function printCacheItems(items: CleanupItem[]): void {
+  const total = items.reduce((s, i) => s + i.totalSize, 0);
+  console.log(`\n${t("cache.summary", { count: `${colors.yellow}${items.length}${colors.reset}`, size: `${colors.yellow}${formatSize(total)}${colors.reset}` })}\n`);
+  for (const item of items) {
+    if (isCommandOnly(item)) {
+      console.log(`  ${item.task.name.padEnd(20)} ${"—".padStart(10)}  ${colors.dim}${t("cache.commandOnly", { commands: item.task.commands!.join("; ") })}${colors.reset}`);
+      continue;
+    }
+    const resources = item.targets ? t("cache.resources", { count: item.targets.length }) : "";
+    console.log(`  ${item.task.name.padEnd(20)} ${colors.yellow}${formatSize(item.totalSize).padStart(10)}${colors.reset}  ${colors.dim}${t("cache.paths", { count: item.paths.length })}${resources}${colors.reset}`);
+  }
+}
+
+function printOrphanList(orphans: OrphanFile[]): void {
+  if (orphans.length === 0) return;
+  console.log("");
+  for (const o of orphans) {
+    console.log(`  ${o.confidence.padEnd(6)} ${String(o.score).padStart(3)} ${colors.yellow}${formatSize(o.size).padStart(10)}${colors.reset}  ${o.path}`);
+  }
+}
+
+function printConfig(config: AppConfig): void {
+  console.log(t("config.file", { file: config.file ?? `${colors.dim}${t("config.fileUnused", { path: defaultConfigPath() })}${colors.reset}` }));
+  const { providers } = config;
+  console.log(`\n${t("config.tasks", { enabled: providers.filter(p => p.enabled).length, total: providers.length })}`);
+  for (const p of providers) {
+    const notes = [
+      p instanceof TaskProvider && p.task.keepLatest !== undefined ? t("config.keepLatest", { n: p.task.keepLatest }) : "",
+      isPluginProvider(p) ? t("config.plugin") : "",
+      p.autoSafe ? t("config.autoSafe") : "",
+      p.needsSudo ? t("config.needsSudo") : "",
+    ].filter(Boolean);
+    const suffix = notes.length > 0 ? t("config.notes", { notes: notes.join(t("common.listSeparator")) }) : "";
+    console.log(`  ${p.enabled ? `${colors.green}✓` : `${colors.dim}✗`} ${p.name.padEnd(20)}${colors.reset} ${colors.dim}${p.description}${suffix}${colors.reset}`);
+  }
+  console.log(`\n${t("config.locations")}`);
+  for (const l of config.residualLocations) {
+    console.log(`  ${l.category.padEnd(14)} ${l.confidenceBase.padEnd(6)} ${colors.dim}${l.path}${colors.reset}`);
   }
+  console.log(`\n${t("config.bundleMappings", { count: Object.keys(config.bundleMappings).length })}`);
+  console.log(t("config.systemPrefixes", { list: config.systemPrefixes.join(", ") }));
+  console.log(t("config.appRoots", { list: config.appRoots.join(", ") }));
+  console.log(t("config.workspaces", { list: config.workspaceRoots.join(", ") }));
+  const pf = config.personalFiles;
+  console.log(t("config.personalFiles", { roots: pf.roots.join(", "), minSize: pf.minSizeMB, days: pf.olderThanDays }));
+  console.log(t("config.duplicates", { list: config.duplicateRoots.join(", ") }));
+  const ac = config.autoClean;
+  console.log(t("config.autoClean", { min: ac.minFreeGB, target: ac.targetFreeGB, max: ac.maxGBPerRun, days: ac.minAgeDays }));
+  console.log(`  ${t("config.autoTasks", { tasks: ac.tasks?.join(", ") ?? t("config.autoAllTasks") })} ${colors.dim}${t("config.autoLog", { file: ac.logFile })}${colors.reset}`);
+  console.log(`\n${t("config.exclusions", { count: config.exclusionRules.length })}`);
+  for (const rule of config.exclusionRules) console.log(`  ⛔ ${ExclusionRules.describe(rule)}`);
+}
 
-  private isSystemItem(name: string): boolean {
-    const lower = name.toLowerCase();
-    return SYSTEM_PREFIXES.some(p => lower.startsWith(p.toLowerCase()) || lower === p.toLowerCase());
+function printQuarantine(entries: QuarantineEntry[]): void {
+  if (entries.length === 0) {
+    console.log(`${colors.green}${t("quarantine.empty")}${colors.reset}`);
+    return;
+  }
+  const total = entries.reduce((s, e) => s + e.size, 0);
+  console.log(`\n${t("quarantine.summary", { count: `${colors.yellow}${entries.length}${colors.reset}`, size: `${colors.yellow}${formatSize(total)}${colors.reset}` })}\n`);
+  for (const e of entries) {
+    const date = e.removedAt.slice(0, 16).replace("T", " ");
+    console.log(`  ${colors.cyan}${e.id}${colors.reset}  ${date}  ${colors.yellow}${formatSize(e.size).padStart(10)}${colors.reset}  ${colors.dim}${REMOVAL_LABELS[e.mode]}${colors.reset}`);
+    console.log(`    ${e.originalPath}`);
   }
+}
 
-  private extractAppName(name: string): string {
-    // Bundle ID 對應
-    for (const [prefix, appName] of Object.entries(KNOWN_BUNDLE_MAPPINGS)) {
-      if (name.toLowerCase().startsWith(prefix)) return appName;
+function printStats(stats: HistoryStats): void {
+  if (!stats.first || !stats.last) {
+    console.log(`${colors.dim}${t("stats.empty", { file: RunHistory.file() })}${colors.reset}`);
+    return;
+  }
+  console.log(`\n${colors.bright}${colors.cyan}${t("stats.title")}${colors.reset}`);
+  console.log(`${colors.dim}${t("stats.range", { first: formatDate(Date.parse(stats.first)), last: formatDate(Date.parse(stats.last)), scans: stats.scans, cleanups: stats.cleanups })}${colors.reset}\n`);
+
+  const moved = stats.moved > 0 ? ` ${colors.dim}${t("stats.moved", { size: formatSize(stats.moved) })}${colors.reset}` : "";
+  console.log(`${t("stats.reclaimed", { size: `${colors.green}${formatSize(stats.reclaimed)}${colors.reset}` })}${moved}`);
+  if (stats.reclaimedBy.length > 0) {
+    console.log(`\n${t("stats.reclaimedBy")}`);
+    for (const e of stats.reclaimedBy) {
+      console.log(`  ${e.name.padEnd(20)} ${colors.green}${formatSize(e.freed).padStart(10)}${colors.reset}`);
     }
-
-    // 從 bundle ID 提取
-    const parts = name.split(".");
-    if (parts.length >= 3) return parts[parts.length - 1];
-    return name;
   }
 
-  private isAppInstalled(name: string): boolean {
-    const lower = name.toLowerCase();
-    const appName = this.extractAppName(name).toLowerCase();
+  console.log(`\n${t("stats.growth", { since: formatDate(Date.parse(stats.windowStart)) })}`);
+  if (stats.growth.length === 0) console.log(`  ${colors.dim}${t("stats.noGrowth")}${colors.reset}`);
+  for (const g of stats.growth) {
+    const note = t("stats.growthLine", { size: formatSize(g.current), since: formatDate(Date.parse(g.since)) });
+    console.log(`  ${g.task.padEnd(20)} ${colors.yellow}${("+" + formatSize(g.growth)).padStart(11)}${colors.reset}  ${colors.dim}${note}${colors.reset}`);
+  }
 
-    // 直接匹配
-    if (this.installedApps.has(lower) || this.installedApps.has(appName)) return true;
+  if (stats.lastOrphanScan) {
+    const { at, counts, totalSize } = stats.lastOrphanScan;
+    console.log(`\n${t("stats.orphans", { at: formatDate(Date.parse(at)), ...counts, size: formatSize(totalSize) })}`);
+  }
+  console.log(`\n${t("stats.recurring")}`);
+  if (stats.recurring.length === 0) console.log(`  ${colors.dim}${t("stats.noRecurring")}${colors.reset}`);
+  for (const o of stats.recurring) {
+    console.log(`  ${colors.red}${padDisplay(t("stats.returns", { n: o.returns }), 6, "start")}${colors.reset} ${colors.yellow}${formatSize(o.size).padStart(10)}${colors.reset}  ${o.path}`);
+  }
+}
 
-    // UUID 格式的資料夾視為孤立（已解除安裝應用的殘留）
-    if (/^[0-9A-F]{8}-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{12}$/i.test(name)) {
-      return false;
+// 還原或永久清除隔離項目，完成的項目自紀錄移除
+async function processQuarantine(
+  entries: QuarantineEntry[],
+  targets: QuarantineEntry[],
+  action: "restore" | "purge",
+  hasSudo: boolean,
+  out: StructuredOutput | null,
+): Promise<number> {
+  const done = new Set<QuarantineEntry>();
+  const results: { id: string; originalPath: string; size: number; ok: boolean; error?: string; errorKey?: MessageKey; errorParams?: MessageParams }[] = [];
+
+  for (const entry of targets) {
+    try {
+      if (action === "restore") await restoreEntry(entry, hasSudo);
+      else await purgeEntry(entry, hasSudo);
+      done.add(entry);
+      results.push({ id: entry.id, originalPath: entry.originalPath, size: entry.size, ok: true });
+      if (!out) console.log(`${colors.green}✓${colors.reset} ${entry.originalPath}`);
+    } catch (err) {
+      const message = (err as Error).message;
+      const { key: errorKey, params: errorParams } = err instanceof MessageError ? err : { key: undefined, params: undefined };
+      results.push({ id: entry.id, originalPath: entry.originalPath, size: entry.size, ok: false, error: message, errorKey, errorParams });
+      if (!out) console.log(`${colors.red}✗${colors.reset} ${entry.originalPath} ${colors.dim}(${message})${colors.reset}`);
     }
+  }
 
-    // 從 bundle ID 提取最後一部分進行匹配
-    const parts = lower.split(".");
-    const lastPart = parts[parts.length - 1];
+  if (done.size > 0) await saveQuarantine(entries.filter(e => !done.has(e)));
 
-    // 精確匹配最後一部分（應用名稱）
-    if (lastPart.length >= 3 && this.installedApps.has(lastPart)) {
-      return true;
-    }
+  const bytes = results.filter(r => r.ok).reduce((s, r) => s + r.size, 0);
+  if (out) {
+    out.section(action, { results, bytes });
+  } else if (targets.length === 0) {
+    console.log(`${colors.green}${t("quarantine.noMatch")}${colors.reset}`);
+  } else {
+    console.log(`\n${t(action === "restore" ? "quarantine.restored" : "quarantine.purged", { count: done.size, size: formatSize(bytes) })}`);
+  }
+  return results.some(r => !r.ok) ? EXIT_ERROR : EXIT_OK;
+}
 
-    return false;
+function cliScanOptions(opts: CliOptions, out: StructuredOutput | null): ScanOptions {
+  return {
+    quiet: out !== null,
+    maxAgeDays: opts.maxAgeDays,
+    apparentSize: opts.apparentSize,
+    sizeTimeoutMs: opts.sizeTimeoutMs,
+    concurrency: opts.jobs,
+    onOrphan: o => out?.orphan(o),
+    onItem: i => out?.cacheItem(i),
+    onProject: p => out?.project(p),
+    onFile: f => out?.file(f),
+    onDuplicate: g => out?.duplicateGroup(g),
+    minSizeMB: opts.minSizeMB,
+  };
+}
+
+async function cleanTargets(targets: SelectableItem[], opts: CliOptions, config: AppConfig, hasSudo: boolean, out: StructuredOutput | null): Promise<number> {
+  if (targets.length === 0) {
+    if (!out) console.log(`\n${colors.green}${t("clean.nothing")}${colors.reset}`);
+    return EXIT_OK;
   }
 
-  private async scanLocation(loc: ResidualLocation): Promise<void> {
-    const fullPath = expandPath(loc.path);
-    this.scannedLocations.push(fullPath);
+  if (opts.dryRun) {
+    const plans = targets.flatMap(t => planItem(t, hasSudo, opts.removal, config.exclusions));
+    if (out) out.plan(plans);
+    else printPlan(plans);
+    return EXIT_FOUND;
+  }
 
-    try {
-      const entries = await readdir(fullPath);
-      for (const entry of entries) {
-        if (entry.startsWith(".")) continue;
+  const needSudo = targets.filter(t => t.needsSudo);
+  if (!hasSudo && needSudo.length > 0 && !out) {
+    console.log(`\n${colors.yellow}${t("clean.needSudo", { names: needSudo.map(n => n.name).join(", ") })}${colors.reset}`);
+  }
 
-        const entryPath = join(fullPath, entry);
+  const total = targets.reduce((s, t) => s + t.size, 0);
+  if (!out) {
+    const params = { target: REMOVAL_LABELS[opts.removal], count: `${colors.yellow}${targets.length}${colors.reset}`, size: `${colors.yellow}${formatSize(total)}${colors.reset}` };
+    console.log(`\n${t(opts.removal === "delete" ? "clean.aboutToDelete" : "clean.aboutToMove", params)}`);
+  }
 
-        // 跳過系統項目
-        if (this.isSystemItem(entry)) continue;
+  if (!opts.yes) {
+    if (!opts.tty || out) throw new MessageError("clean.needsYes");
+    const warning = opts.removal === "delete"
+      ? `${colors.red}${colors.bright}${t("common.irreversible")}${colors.reset}`
+      : `${colors.green}${t("clean.movedTo", { target: REMOVAL_LABELS[opts.removal] })}${colors.reset}`;
+    console.log(`\n${warning} ${t("common.confirmPrompt", { key: `${colors.green}y${colors.reset}` })}`);
+    if (!(await askYes())) {
+      console.log(`${colors.dim}${t("clean.cancelled")}${colors.reset}`);
+      return EXIT_FOUND;
+    }
+  }
 
-        // 跳過已安裝應用
-        if (this.isAppInstalled(entry)) continue;
+  const summary = await deleteItems(targets, hasSudo, {
+    quiet: out !== null,
+    removal: opts.removal,
+    exclusions: config.exclusions,
+    onResult: r => out?.deleteResult(r),
+  });
+  out?.cleanup(summary);
+  return summary.fail > 0 ? EXIT_ERROR : EXIT_OK;
+}
 
-        // 計算大小
-        const size = getSize(entryPath);
-        if (size < 1024) continue; // 忽略 <1KB
+function scanInterrupted(): number {
+  console.error(`${colors.yellow}${t("clean.interrupted")}${colors.reset}`);
+  return EXIT_INTERRUPTED;
+}
 
-        let type: "file" | "directory" = "file";
-        try {
-          const s = await stat(entryPath);
-          type = s.isDirectory() ? "directory" : "file";
-        } catch {}
+// 不需掃描的指令不載入外掛，設定檔有誤時改用內建預設值，外掛或設定損壞時仍能還原或清除隔離區
+const NO_PLUGIN_COMMANDS = ["quarantine", "restore", "purge", "stats"];
 
-        // 決定信心度
-        let confidence = loc.confidenceBase;
-        if (size > 100 * 1024 * 1024) confidence = "high"; // >100MB
-        else if (loc.category === "Preferences" && size < 10 * 1024) confidence = "low";
-
-        this.orphans.push({
-          path: entryPath,
-          type,
-          size,
-          appName: this.extractAppName(entry),
-          reason: `在 ${loc.category} 發現，應用程式可能已解除安裝`,
-          confidence,
-          category: loc.category,
-        });
-      }
-    } catch {}
+async function loadCommandConfig(command: string, path?: string): Promise<AppConfig> {
+  if (!NO_PLUGIN_COMMANDS.includes(command)) return await loadConfig(path, { plugins: true });
+  try {
+    return await loadConfig(path);
+  } catch (err) {
+    const warning = err instanceof MessageError
+      ? { ...translated("config.ignored", { error: err.message }), cause: { key: err.key, params: err.params } }
+      : translated("config.ignored", { error: (err as Error).message });
+    return mergeConfig({}, null, [], [warning]);
   }
+}
 
-  async scan(): Promise<ScanResult> {
-    console.log(`\n${colors.bright}${colors.cyan}════════════════════════════════════════════════════════════════════════════════${colors.reset}`);
-    console.log(`${colors.bright}${colors.cyan}  🔍 掃描應用程式殘留檔案${colors.reset}`);
-    console.log(`${colors.bright}${colors.cyan}════════════════════════════════════════════════════════════════════════════════${colors.reset}\n`);
+function printConfigWarnings(config: AppConfig, out: StructuredOutput | null): void {
+  for (const warning of config.warnings) {
+    out?.warning(warning);
+    console.error(`${colors.yellow}${t("cli.warning", { message: warning.text })}${colors.reset}`);
+  }
+}
 
-    await this.getInstalledApps();
+async function runCommand(command: string, args: string[], opts: CliOptions, out: StructuredOutput | null): Promise<number> {
+  const config = await loadCommandConfig(command, opts.configPath);
+  printConfigWarnings(config, out);
 
-    console.log(`\n${colors.cyan}📁 掃描 ${RESIDUAL_LOCATIONS.length} 個位置...${colors.reset}\n`);
+  switch (command) {
+    case "orphans scan": {
+      const scanner = new OrphanScanner(config, cliScanOptions(opts, out));
+      const result = await scanner.scan();
+      if (out) {
+        out.orphanScan(result);
+      } else {
+        scanner.printReport(result);
+        printOrphanList(result.orphans);
+      }
+      if (result.cancelled) return EXIT_INTERRUPTED;
+      return result.orphans.length > 0 ? EXIT_FOUND : EXIT_OK;
+    }
 
-    for (const loc of RESIDUAL_LOCATIONS) {
-      this.progress.start(`掃描 ${loc.category}... ${colors.dim}${loc.path}${colors.reset}`);
-      await this.scanLocation(loc);
-      this.progress.stop();
+    case "orphans clean": {
+      const hasSudo = await resolveCliSudo(opts);
+      const result = await new OrphanScanner(config, cliScanOptions(opts, out)).scan();
+      out?.orphanScan(result);
+      if (result.cancelled) return scanInterrupted();
+      const orphans = result.orphans.filter(o => CONFIDENCE_RANK[o.confidence] >= CONFIDENCE_RANK[opts.confidence]);
+      return await cleanTargets(orphansToSelectable(orphans), opts, config, hasSudo, out);
     }
 
-    this.orphans.sort((a, b) => b.size - a.size);
-    const totalSize = this.orphans.reduce((sum, o) => sum + o.size, 0);
+    case "cache scan": {
+      const scanner = new CleanupScanner(config.exclusions, cliScanOptions(opts, out));
+      const items = await scanner.scan(selectProviders(opts, config));
+      if (out) {
+        out.cacheScan(items, scanner);
+      } else {
+        if (items.length === 0) console.log(`\n${colors.green}${t("cache.none")}${colors.reset}`);
+        else printCacheItems(items);
+        printExcluded(scanner.excluded);
+        printWarnings(scanner.warnings);
+        printCancelled(scanner.cancelled);
+      }
+      if (scanner.cancelled) return EXIT_INTERRUPTED;
+      // 只有指令的任務隨時可執行，不算找到可清理的項目
+      return items.some(i => !isCommandOnly(i)) ? EXIT_FOUND : EXIT_OK;
+    }
 
-    return { orphans: this.orphans, totalSize, scannedLocations: this.scannedLocations };
-  }
+    case "cache clean": {
+      if (!opts.all && opts.tasks.length === 0) throw new MessageError("cli.cacheCleanNeedsTask");
+      const hasSudo = await resolveCliSudo(opts);
+      const scanner = new CleanupScanner(config.exclusions, cliScanOptions(opts, out));
+      const items = await scanner.scan(selectProviders(opts, config));
+      out?.cacheScan(items, scanner);
+      if (scanner.cancelled) return scanInterrupted();
+      return await cleanTargets(cacheItemsToSelectable(items), opts, config, hasSudo, out);
+    }
 
-  printReport(result: ScanResult): void {
-    console.log("\n" + "═".repeat(80));
-    console.log(`${colors.bright}${colors.cyan}  📊 掃描報告${colors.reset}`);
-    console.log("═".repeat(80));
+    case "clean": {
+      if (!opts.all) throw new MessageError("cli.cleanNeedsAll");
+      const hasSudo = await resolveCliSudo(opts);
+      const scanner = new CleanupScanner(config.exclusions, cliScanOptions(opts, out));
+      const cacheItems = await scanner.scan(enabledProviders(config));
+      out?.cacheScan(cacheItems, scanner);
+      if (scanner.cancelled) return scanInterrupted();
+      const result = await new OrphanScanner(config, cliScanOptions(opts, out)).scan();
+      out?.orphanScan(result);
+      if (result.cancelled) return scanInterrupted();
+      const orphans = result.orphans.filter(o => CONFIDENCE_RANK[o.confidence] >= CONFIDENCE_RANK[opts.confidence]);
+      return await cleanTargets([...cacheItemsToSelectable(cacheItems), ...orphansToSelectable(orphans)], opts, config, hasSudo, out);
+    }
 
-    const high = result.orphans.filter(o => o.confidence === "high");
-    const medium = result.orphans.filter(o => o.confidence === "medium");
-    const low = result.orphans.filter(o => o.confidence === "low");
+    case "projects scan": {
+      const scanner = new ProjectScanner(config.exclusions, cliScanOptions(opts, out));
+      const projects = await scanner.scan(opts.workspaces.length > 0 ? opts.workspaces : config.workspaceRoots);
+      if (out) {
+        out.projectScan(projects, scanner);
+      } else {
+        if (projects.length === 0) console.log(`\n${colors.green}${t("projects.none")}${colors.reset}`);
+        else printProjects(projects);
+        printExcluded(scanner.excluded);
+        printWarnings(scanner.warnings);
+        printCancelled(scanner.cancelled);
+      }
+      if (scanner.cancelled) return EXIT_INTERRUPTED;
+      return projects.length > 0 ? EXIT_FOUND : EXIT_OK;
+    }
 
-    console.log(`\n  發現: ${colors.yellow}${result.orphans.length}${colors.reset} 個殘留項目`);
-    console.log(`  可清理: ${colors.yellow}${formatSize(result.totalSize)}${colors.reset}`);
+    case "projects clean": {
+      const hasSudo = await resolveCliSudo(opts);
+      const scanner = new ProjectScanner(config.exclusions, cliScanOptions(opts, out));
+      const projects = await scanner.scan(opts.workspaces.length > 0 ? opts.workspaces : config.workspaceRoots);
+      out?.projectScan(projects, scanner);
+      if (scanner.cancelled) return scanInterrupted();
+      return await cleanTargets(projectsToSelectable(projects), opts, config, hasSudo, out);
+    }
 
-    console.log(`\n  ${colors.dim}按信心度:${colors.reset}`);
-    console.log(`  ${colors.red}🔴 高: ${high.length} 個 (${formatSize(high.reduce((s, o) => s + o.size, 0))})${colors.reset}`);
-    console.log(`  ${colors.yellow}🟡 中: ${medium.length} 個 (${formatSize(medium.reduce((s, o) => s + o.size, 0))})${colors.reset}`);
-    console.log(`  ${colors.dim}⚪ 低: ${low.length} 個 (${formatSize(low.reduce((s, o) => s + o.size, 0))})${colors.reset}`);
+    case "files scan": {
+      const scanner = new PersonalFileScanner(config, cliScanOptions(opts, out));
+      const files = await scanner.scan();
+      if (out) {
+        out.fileScan(files, scanner);
+      } else {
+        if (files.length === 0) console.log(`\n${colors.green}${t("files.none")}${colors.reset}`);
+        else printPersonalFiles(files);
+        printExcluded(scanner.excluded);
+        printWarnings(scanner.warnings);
+        printCancelled(scanner.cancelled);
+      }
+      if (scanner.cancelled) return EXIT_INTERRUPTED;
+      return files.length > 0 ? EXIT_FOUND : EXIT_OK;
+    }
 
-    if (result.orphans.length === 0) {
-      console.log(`\n${colors.green}✓ 未發現殘留檔案！${colors.reset}`);
+    case "files clean": {
+      const hasSudo = await resolveCliSudo(opts);
+      const scanner = new PersonalFileScanner(config, cliScanOptions(opts, out));
+      const files = await scanner.scan();
+      out?.fileScan(files, scanner);
+      if (scanner.cancelled) return scanInterrupted();
+      // 個人檔案可能仍有用途：預設只清理高信心度（應用程式已安裝）的安裝檔，
+      // 指定路徑時則清理路徑下找到的所有檔案
+      const roots = args.map(a => resolve(expandPath(a)));
+      const all = filesToSelectable(files);
+      const targets = roots.length > 0
+        ? all.filter(f => roots.some(r => f.path === r || f.path.startsWith(r + "/")))
+        : all.filter(f => CONFIDENCE_RANK[f.confidence ?? "low"] >= CONFIDENCE_RANK[opts.confidence]);
+      if (roots.length === 0 && targets.length < all.length && !out) {
+        console.log(`\n${colors.dim}${t("files.skippedUnsure", { count: all.length - targets.length })}${colors.reset}`);
+      }
+      return await cleanTargets(targets, opts, config, hasSudo, out);
     }
-  }
-}
 
-// ============================================================================
-// 主選單
-// ============================================================================
+    case "dupes scan": {
+      const scanner = new DuplicateScanner(config.exclusions, cliScanOptions(opts, out));
+      const groups = await scanner.scan(args.length > 0 ? args : config.duplicateRoots);
+      if (out) {
+        out.duplicateScan(groups, scanner);
+      } else {
+        if (groups.length === 0) console.log(`\n${colors.green}${t("dupes.none")}${colors.reset}`);
+        else printDuplicates(groups);
+        printExcluded(scanner.excluded);
+        printWarnings(scanner.warnings);
+        printCancelled(scanner.cancelled);
+      }
+      if (scanner.cancelled) return EXIT_INTERRUPTED;
+      return groups.length > 0 ? EXIT_FOUND : EXIT_OK;
+    }
 
-interface MenuItem {
-  id: string;
-  label: string;
-  description: string;
-}
+    case "dupes clean": {
+      const hasSudo = await resolveCliSudo(opts);
+      const scanner = new DuplicateScanner(config.exclusions, cliScanOptions(opts, out));
+      const groups = await scanner.scan(args.length > 0 ? args : config.duplicateRoots);
+      out?.duplicateScan(groups, scanner);
+      if (scanner.cancelled) return scanInterrupted();
+      // 只刪除複本，保留項一律不動
+      return await cleanTargets(duplicatesToSelectable(groups).filter(t => !t.keeper), opts, config, hasSudo, out);
+    }
 
-const MENU_ITEMS: MenuItem[] = [
-  { id: "1", label: "掃描應用程式殘留檔案", description: "找出已解除安裝應用程式的殘留資料" },
-  { id: "2", label: "清理開發環境快取", description: "掃描並清理開發工具的快取" },
-  { id: "3", label: "完整清理", description: "先清理快取，再掃描殘留" },
-  { id: "q", label: "退出", description: "離開程式" },
-];
+    case "config": {
+      if (out) {
+        const { exclusions: _compiled, exclusionRules, providers, ...rest } = config;
+        out.section("config", {
+          ...rest,
+          providers: providers.map(p => ({ name: p.name, enabled: p.enabled, needsSudo: p.needsSudo, plugin: isPluginProvider(p) })),
+          exclusions: exclusionRules,
+        });
+      }
+      else printConfig(config);
+      return EXIT_OK;
+    }
 
-class MainMenu {
-  private selectedIndex = 0;
+    case "quarantine": {
+      const entries = await loadQuarantine();
+      if (out) out.section("quarantine", { entries });
+      else printQuarantine(entries);
+      return EXIT_OK;
+    }
 
-  private clearScreen(): void { process.stdout.write("\x1b[2J\x1b[H"); }
-  private hideCursor(): void { process.stdout.write("\x1b[?25l"); }
-  private showCursor(): void { process.stdout.write("\x1b[?25h"); }
+    case "restore": {
+      if (!opts.all && args.length === 0) throw new MessageError("cli.restoreNeedsId");
+      const hasSudo = await resolveCliSudo(opts);
+      const entries = await loadQuarantine();
+      const targets = opts.all ? entries : entries.filter(e => args.includes(e.id));
+      const missing = args.filter(id => !entries.some(e => e.id === id));
+      if (missing.length > 0) throw new MessageError("cli.notInQuarantine", { ids: missing.join(", ") });
+      return await processQuarantine(entries, targets, "restore", hasSudo, out);
+    }
 
-  private render(hasSudo: boolean): void {
-    this.clearScreen();
-    console.log(`${colors.bright}${colors.cyan}════════════════════════════════════════════════════════════════════════════════${colors.reset}`);
-    console.log(`${colors.bright}${colors.cyan}  🧹 macOS 清理工具 v3.0${colors.reset}`);
-    console.log(`${colors.bright}${colors.cyan}════════════════════════════════════════════════════════════════════════════════${colors.reset}`);
-    console.log(`\n  ${colors.dim}使用 ↑/↓ 選擇，Enter 確認${colors.reset}`);
-    console.log(`  ${hasSudo ? colors.green + "✓ 管理員權限" : colors.yellow + "⚠ 一般權限"}${colors.reset}\n`);
+    case "auto": {
+      if (opts.removal !== "delete") throw new MessageError("cli.autoDeleteOnly");
+      const hasSudo = await resolveCliSudo(opts);
+      const report = await new AutoCleaner(config, { hasSudo, dryRun: opts.dryRun, quiet: out !== null }).run();
+      out?.section("autoClean", { dryRun: opts.dryRun, ...report });
+      if (report.actions.some(a => a.status === "failed")) return EXIT_ERROR;
+      return opts.dryRun && report.actions.length > 0 ? EXIT_FOUND : EXIT_OK;
+    }
 
-    for (let i = 0; i < MENU_ITEMS.length; i++) {
-      const item = MENU_ITEMS[i];
-      const isSelected = i === this.selectedIndex;
-      if (isSelected) {
-        console.log(`  ${colors.cyan}▶${colors.reset} ${colors.bgBlue}${colors.bright} ${item.label} ${colors.reset}`);
-      } else {
-        console.log(`    ${colors.dim}${item.label}${colors.reset}`);
-      }
+    case "stats": {
+      const stats = summarizeHistory(await RunHistory.load(), opts.since ?? DEFAULT_STATS_WINDOW_MS);
+      if (out) out.section("stats", { file: RunHistory.file(), ...stats });
+      else printStats(stats);
+      return EXIT_OK;
     }
 
-    console.log(`\n  ${colors.dim}─────────────────────────────────${colors.reset}`);
-    console.log(`  ${colors.yellow}${MENU_ITEMS[this.selectedIndex].description}${colors.reset}`);
+    case "purge": {
+      if (!opts.all && opts.olderThan === undefined) throw new MessageError("cli.purgeNeedsAge");
+      const hasSudo = await resolveCliSudo(opts);
+      const entries = await loadQuarantine();
+      const cutoff = Date.now() - (opts.olderThan ?? 0);
+      const targets = entries.filter(e => opts.all || Date.parse(e.removedAt) <= cutoff);
+      return await processQuarantine(entries, targets, "purge", hasSudo, out);
+    }
+
+    default:
+      throw new MessageError("cli.unknownCommand", { command });
   }
+}
 
-  async show(hasSudo: boolean): Promise<string> {
-    this.hideCursor();
-    process.stdin.setRawMode(true);
-    process.stdin.resume();
-    process.stdin.setEncoding("utf8");
-    this.render(hasSudo);
+async function runCli(argv: string[]): Promise<number> {
+  let opts: CliOptions;
+  try {
+    opts = parseCliArgs(argv);
+  } catch (err) {
+    console.error(`${t("cli.error", { message: (err as Error).message })}\n`);
+    console.error(CLI_USAGE);
+    return EXIT_ERROR;
+  }
 
-    return new Promise(resolve => {
-      const handleKey = (key: Buffer) => {
-        const k = key.toString();
+  if (!opts.tty || opts.format !== "text") {
+    disableColors();
+    ProgressDisplay.enabled = false;
+  }
+  if (opts.dryRun) RunHistory.enabled = false;
 
-        if (k === "\x1b" && key.length === 1) {
-          this.showCursor();
-          process.stdin.setRawMode(false);
-          process.stdin.removeListener("data", handleKey);
-          resolve("q");
-          return;
-        }
+  if (opts.help || opts.command[0] === "help") {
+    console.log(CLI_USAGE);
+    return EXIT_OK;
+  }
 
-        if (k === "\x1b[A" || k === "k") {
-          this.selectedIndex = (this.selectedIndex - 1 + MENU_ITEMS.length) % MENU_ITEMS.length;
-          this.render(hasSudo);
-        } else if (k === "\x1b[B" || k === "j") {
-          this.selectedIndex = (this.selectedIndex + 1) % MENU_ITEMS.length;
-          this.render(hasSudo);
-        } else if (k === "\r" || k === "\n") {
-          this.showCursor();
-          process.stdin.setRawMode(false);
-          process.stdin.removeListener("data", handleKey);
-          this.clearScreen();
-          resolve(MENU_ITEMS[this.selectedIndex].id);
-        } else if (k >= "1" && k <= "3") {
-          this.showCursor();
-          process.stdin.setRawMode(false);
-          process.stdin.removeListener("data", handleKey);
-          this.clearScreen();
-          resolve(k);
-        } else if (k === "q" || k === "Q") {
-          this.showCursor();
-          process.stdin.setRawMode(false);
-          process.stdin.removeListener("data", handleKey);
-          resolve("q");
-        }
-      };
+  // 未指定指令時進入互動式選單
+  if (opts.command.length === 0) {
+    if (!opts.tty || opts.format !== "text") {
+      console.error(t("cli.error", { message: t("cli.menuNeedsTty") }));
+      return EXIT_ERROR;
+    }
+    let config: AppConfig;
+    try {
+      config = await loadConfig(opts.configPath, { plugins: true });
+    } catch (err) {
+      console.error(`${colors.red}${t("cli.error", { message: (err as Error).message })}${colors.reset}`);
+      return EXIT_ERROR;
+    }
+    printConfigWarnings(config, null);
+    return await runInteractive({ dryRun: opts.dryRun, removal: opts.removal, exclusions: config.exclusions, maxAgeDays: opts.maxAgeDays }, config);
+  }
 
-      process.stdin.on("data", handleKey);
-    });
+  // orphans、cache 為兩段式指令，其餘指令後方的參數交給指令自行處理
+  const words = GROUP_COMMANDS.includes(opts.command[0]) ? 2 : 1;
+  const command = opts.command.slice(0, words).join(" ");
+  const args = opts.command.slice(words);
+  const out = opts.format === "text" ? null : new StructuredOutput(opts.format, command);
+  let code: number;
+  try {
+    code = await runCommand(command, args, opts, out);
+  } catch (err) {
+    out?.error(err as Error);
+    console.error(`${colors.red}${t("cli.error", { message: (err as Error).message })}${colors.reset}`);
+    code = EXIT_ERROR;
   }
+  out?.finish(code);
+  return code;
 }
 
 // ============================================================================
 // 主程式
 // ============================================================================
 
-async function main() {
+async function runInteractive(settings: RunSettings, config: AppConfig): Promise<number> {
   // 檢查 sudo 權限
   let hasSudo = checkSudo();
   if (!hasSudo) {
@@ -886,18 +6747,19 @@ async function main() {
   }
 
   const menu = new MainMenu();
+  const scanOptions: ScanOptions = { maxAgeDays: settings.maxAgeDays };
 
   while (true) {
     const choice = await menu.show(hasSudo);
 
     switch (choice) {
       case "1": {
-        const scanner = new OrphanScanner();
+        const scanner = new OrphanScanner(config, scanOptions);
         const result = await scanner.scan();
         scanner.printReport(result);
 
         if (result.orphans.length > 0) {
-          console.log(`\n按 ${colors.green}y${colors.reset} 進入清理，其他鍵返回選單`);
+          console.log(`\n${t("menu.enterCleanup", { key: `${colors.green}y${colors.reset}` })}`);
           const proceed = await new Promise<boolean>(resolve => {
             process.stdin.setRawMode(true);
             process.stdin.resume();
@@ -908,15 +6770,7 @@ async function main() {
           });
 
           if (proceed) {
-            const items: SelectableItem[] = result.orphans.map(o => ({
-              name: o.appName,
-              path: o.path,
-              size: o.size,
-              detail: o.reason,
-              confidence: o.confidence,
-              category: o.category,
-            }));
-            const selector = new InteractiveSelector(items, "🗑️  殘留檔案清理", hasSudo);
+            const selector = new InteractiveSelector(orphansToSelectable(result.orphans), t("menu.orphansTitle"), hasSudo, settings);
             await selector.start();
           }
         }
@@ -924,12 +6778,15 @@ async function main() {
       }
 
       case "2": {
-        const cleanupScanner = new CleanupScanner();
-        const items = await cleanupScanner.scan(CLEANUP_TASKS);
+        const cleanupScanner = new CleanupScanner(config.exclusions, scanOptions);
+        const items = await cleanupScanner.scan(enabledProviders(config));
+        printExcluded(cleanupScanner.excluded);
+        printWarnings(cleanupScanner.warnings);
+        printCancelled(cleanupScanner.cancelled);
 
         if (items.length === 0) {
-          console.log(`\n${colors.green}✓ 沒有發現需要清理的快取！${colors.reset}`);
-          console.log(`\n${colors.dim}按任意鍵繼續...${colors.reset}`);
+          console.log(`\n${colors.green}${t("cache.none")}${colors.reset}`);
+          console.log(`\n${colors.dim}${t("common.pressAnyKey")}${colors.reset}`);
           await new Promise<void>(resolve => {
             process.stdin.setRawMode(true);
             process.stdin.resume();
@@ -937,8 +6794,8 @@ async function main() {
           });
         } else {
           const total = items.reduce((s, i) => s + i.totalSize, 0);
-          console.log(`\n${colors.yellow}發現 ${items.length} 個可清理項目，共 ${formatSize(total)}${colors.reset}`);
-          console.log(`\n按 ${colors.green}y${colors.reset} 進入清理，其他鍵返回選單`);
+          console.log(`\n${colors.yellow}${t("menu.cacheFound", { count: items.length, size: formatSize(total) })}${colors.reset}`);
+          console.log(`\n${t("menu.enterCleanup", { key: `${colors.green}y${colors.reset}` })}`);
 
           const proceed = await new Promise<boolean>(resolve => {
             process.stdin.setRawMode(true);
@@ -950,13 +6807,8 @@ async function main() {
           });
 
           if (proceed) {
-            const selectItems: SelectableItem[] = items.map(i => ({
-              name: i.task.name,
-              path: i.paths[0] || "",
-              size: i.totalSize,
-              detail: `${i.task.description} (${i.paths.length} 個路徑)`,
-            }));
-            const selector = new InteractiveSelector(selectItems, "🧹 開發環境快取清理", hasSudo);
+            const selectable = cacheItemsToSelectable(items);
+            const selector = new InteractiveSelector(selectable, t("menu.cacheTitle"), hasSudo, settings);
             await selector.start();
           }
         }
@@ -965,13 +6817,16 @@ async function main() {
 
       case "3": {
         // 先清理快取
-        const cleanupScanner = new CleanupScanner();
-        const cacheItems = await cleanupScanner.scan(CLEANUP_TASKS);
+        const cleanupScanner = new CleanupScanner(config.exclusions, scanOptions);
+        const cacheItems = await cleanupScanner.scan(enabledProviders(config));
+        printExcluded(cleanupScanner.excluded);
+        printWarnings(cleanupScanner.warnings);
+        printCancelled(cleanupScanner.cancelled);
 
         if (cacheItems.length > 0) {
           const total = cacheItems.reduce((s, i) => s + i.totalSize, 0);
-          console.log(`\n${colors.yellow}發現 ${cacheItems.length} 個快取項目，共 ${formatSize(total)}${colors.reset}`);
-          console.log(`\n按 ${colors.green}y${colors.reset} 進入清理，其他鍵跳過`);
+          console.log(`\n${colors.yellow}${t("menu.cacheItemsFound", { count: cacheItems.length, size: formatSize(total) })}${colors.reset}`);
+          console.log(`\n${t("menu.enterCleanupSkip", { key: `${colors.green}y${colors.reset}` })}`);
 
           const proceed = await new Promise<boolean>(resolve => {
             process.stdin.setRawMode(true);
@@ -983,26 +6838,138 @@ async function main() {
           });
 
           if (proceed) {
-            const selectItems: SelectableItem[] = cacheItems.map(i => ({
-              name: i.task.name,
-              path: i.paths[0] || "",
-              size: i.totalSize,
-              detail: `${i.task.description} (${i.paths.length} 個路徑)`,
-            }));
-            const selector = new InteractiveSelector(selectItems, "🧹 開發環境快取清理", hasSudo);
+            const selectable = cacheItemsToSelectable(cacheItems);
+            const selector = new InteractiveSelector(selectable, t("menu.cacheTitle"), hasSudo, settings);
             await selector.start();
           }
         } else {
-          console.log(`\n${colors.green}✓ 沒有發現需要清理的快取！${colors.reset}`);
+          console.log(`\n${colors.green}${t("cache.none")}${colors.reset}`);
         }
 
         // 再掃描殘留
-        const orphanScanner = new OrphanScanner();
+        const orphanScanner = new OrphanScanner(config, scanOptions);
         const result = await orphanScanner.scan();
         orphanScanner.printReport(result);
 
         if (result.orphans.length > 0) {
-          console.log(`\n按 ${colors.green}y${colors.reset} 進入清理，其他鍵返回選單`);
+          console.log(`\n${t("menu.enterCleanup", { key: `${colors.green}y${colors.reset}` })}`);
+          const proceed = await new Promise<boolean>(resolve => {
+            process.stdin.setRawMode(true);
+            process.stdin.resume();
+            process.stdin.once("data", key => {
+              process.stdin.setRawMode(false);
+              resolve(key.toString().toLowerCase() === "y");
+            });
+          });
+
+          if (proceed) {
+            const selector = new InteractiveSelector(orphansToSelectable(result.orphans), t("menu.orphansTitle"), hasSudo, settings);
+            await selector.start();
+          }
+        }
+        break;
+      }
+
+      case "4": {
+        const scanner = new ProjectScanner(config.exclusions, scanOptions);
+        const projects = await scanner.scan(config.workspaceRoots);
+        printExcluded(scanner.excluded);
+        printWarnings(scanner.warnings);
+        printCancelled(scanner.cancelled);
+
+        if (projects.length === 0) {
+          console.log(`\n${colors.green}${t("projects.none")}${colors.reset}`);
+          console.log(`\n${colors.dim}${t("common.pressAnyKey")}${colors.reset}`);
+          await new Promise<void>(resolve => {
+            process.stdin.setRawMode(true);
+            process.stdin.resume();
+            process.stdin.once("data", () => { process.stdin.setRawMode(false); resolve(); });
+          });
+        } else {
+          const total = projects.reduce((s, p) => s + p.totalSize, 0);
+          console.log(`\n${colors.yellow}${t("menu.projectsFound", { count: projects.length, size: formatSize(total) })}${colors.reset}`);
+          console.log(`\n${t("menu.enterCleanup", { key: `${colors.green}y${colors.reset}` })}`);
+
+          const proceed = await new Promise<boolean>(resolve => {
+            process.stdin.setRawMode(true);
+            process.stdin.resume();
+            process.stdin.once("data", key => {
+              process.stdin.setRawMode(false);
+              resolve(key.toString().toLowerCase() === "y");
+            });
+          });
+
+          if (proceed) {
+            const selector = new InteractiveSelector(projectsToSelectable(projects), t("menu.projectsTitle"), hasSudo, settings);
+            await selector.start();
+          }
+        }
+        break;
+      }
+
+      case "5": {
+        const scanner = new PersonalFileScanner(config, scanOptions);
+        const files = await scanner.scan();
+        printExcluded(scanner.excluded);
+        printWarnings(scanner.warnings);
+        printCancelled(scanner.cancelled);
+
+        if (files.length === 0) {
+          console.log(`\n${colors.green}${t("files.none")}${colors.reset}`);
+          console.log(`\n${colors.dim}${t("common.pressAnyKey")}${colors.reset}`);
+          await new Promise<void>(resolve => {
+            process.stdin.setRawMode(true);
+            process.stdin.resume();
+            process.stdin.once("data", () => { process.stdin.setRawMode(false); resolve(); });
+          });
+        } else {
+          const total = files.reduce((s, f) => s + f.size, 0);
+          const installers = files.filter(f => f.installedApp).length;
+          console.log(`\n${colors.yellow}${t("menu.filesFound", { count: files.length, size: formatSize(total) })}${colors.reset}`);
+          if (installers > 0) console.log(`${colors.green}${t("menu.installersHint", { count: installers })}${colors.reset}`);
+          console.log(`\n${t("menu.enterCleanup", { key: `${colors.green}y${colors.reset}` })}`);
+
+          const proceed = await new Promise<boolean>(resolve => {
+            process.stdin.setRawMode(true);
+            process.stdin.resume();
+            process.stdin.once("data", key => {
+              process.stdin.setRawMode(false);
+              resolve(key.toString().toLowerCase() === "y");
+            });
+          });
+
+          if (proceed) {
+            const selector = new InteractiveSelector(filesToSelectable(files), t("menu.filesTitle"), hasSudo, settings);
+            await selector.start();
+          }
+        }
+        break;
+      }
+
+      case "6": {
+        console.log(`\n${colors.dim}${t("menu.dupesDefaultRoots", { roots: config.duplicateRoots.join(", ") })}${colors.reset}`);
+        const input = await askLine(t("menu.dupesAskRoots"));
+        const roots = input ? input.split(",").map(s => s.trim()).filter(Boolean) : config.duplicateRoots;
+        const scanner = new DuplicateScanner(config.exclusions, scanOptions);
+        const groups = await scanner.scan(roots);
+        printExcluded(scanner.excluded);
+        printWarnings(scanner.warnings);
+        printCancelled(scanner.cancelled);
+
+        if (groups.length === 0) {
+          console.log(`\n${colors.green}${t("dupes.none")}${colors.reset}`);
+          console.log(`\n${colors.dim}${t("common.pressAnyKey")}${colors.reset}`);
+          await new Promise<void>(resolve => {
+            process.stdin.setRawMode(true);
+            process.stdin.resume();
+            process.stdin.once("data", () => { process.stdin.setRawMode(false); resolve(); });
+          });
+        } else {
+          const total = groups.reduce((s, g) => s + reclaimableSize(g), 0);
+          console.log(`\n${colors.yellow}${t("menu.dupesFound", { count: groups.length, size: formatSize(total) })}${colors.reset}`);
+          console.log(`${colors.dim}${t("menu.dupesKeeperHint")}${colors.reset}`);
+          console.log(`\n${t("menu.enterCleanup", { key: `${colors.green}y${colors.reset}` })}`);
+
           const proceed = await new Promise<boolean>(resolve => {
             process.stdin.setRawMode(true);
             process.stdin.resume();
@@ -1013,15 +6980,7 @@ async function main() {
           });
 
           if (proceed) {
-            const items: SelectableItem[] = result.orphans.map(o => ({
-              name: o.appName,
-              path: o.path,
-              size: o.size,
-              detail: o.reason,
-              confidence: o.confidence,
-              category: o.category,
-            }));
-            const selector = new InteractiveSelector(items, "🗑️  殘留檔案清理", hasSudo);
+            const selector = new InteractiveSelector(duplicatesToSelectable(groups), t("menu.dupesTitle"), hasSudo, settings);
             await selector.start();
           }
         }
@@ -1031,10 +6990,15 @@ async function main() {
       case "q":
       case "quit":
       case "exit":
-        console.log(`\n${colors.cyan}再見！${colors.reset}\n`);
-        process.exit(0);
+        console.log(`\n${colors.cyan}${t("menu.bye")}${colors.reset}\n`);
+        return EXIT_OK;
     }
   }
 }
 
-main().catch(console.error);
+async function main() {
+  process.exit(await runCli(process.argv.slice(2)));
+}
+
+// 以模組匯入時（例如測試）不執行
+if (import.meta.main) main().catch(console.error);